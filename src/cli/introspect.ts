@@ -5,22 +5,37 @@
  * This CLI tool:
  * 1. Connects to the PostgreSQL database
  * 2. Introspects the schema by reading information_schema.columns
- * 3. Generates TypeScript interfaces from the database tables
+ *    (plus pg_enum and information_schema.attributes for enum and
+ *    composite types)
+ * 3. Generates TypeScript interfaces from the database tables, typing
+ *    JSON columns from the config file or `@type` column comments
  * 4. Outputs the generated types to generated/models.ts
  */
 
 import * as fs from "fs";
 import * as path from "path";
 import { getDbAdapter } from "../db/DbAdapter";
-import { getTsType, introspectionConfig } from "../config/db.config";
+import {
+  CodecConfig,
+  getTsType,
+  introspectionConfig,
+} from "../config/db.config";
 
 /**
  * Column metadata from the database schema
  */
-interface ColumnInfo {
+export interface ColumnInfo {
   table_name: string;
   column_name: string;
   data_type: string;
+  /** Underlying type name, e.g. the enum type of USER-DEFINED columns */
+  udt_name: string;
+  /** Domain the column is declared with, if any */
+  domain_name: string | null;
+  /** Declared array dimensions (0 when not declared) */
+  array_dimensions: number | null;
+  /** COMMENT ON COLUMN text, may hold an `@type` tag */
+  column_comment: string | null;
   is_nullable: string;
   column_default: string | null;
   ordinal_position: number;
@@ -37,23 +52,123 @@ interface ForeignKeyInfo {
   target_column: string;
 }
 
+/**
+ * Primary key column metadata
+ */
+interface PrimaryKeyInfo {
+  table_name: string;
+  column_name: string;
+  ordinal_position: number;
+}
+
+/**
+ * Enum label metadata from pg_enum
+ */
+export interface EnumInfo {
+  enum_name: string;
+  enum_value: string;
+}
+
+/**
+ * Enum type structure for code generation
+ */
+export interface EnumStructure {
+  /** SQL type name, e.g. post_status */
+  enumName: string;
+  /** Generated type name, e.g. PostStatus */
+  typeName: string;
+  /** Labels in declaration order */
+  values: string[];
+}
+
+/**
+ * Composite type attribute metadata from information_schema.attributes
+ */
+interface CompositeAttributeInfo {
+  type_name: string;
+  attribute_name: string;
+  data_type: string;
+  attribute_udt_name: string;
+}
+
+/**
+ * Composite type structure for code generation
+ */
+export interface CompositeStructure {
+  /** SQL type name, e.g. address */
+  typeName: string;
+  /** Generated interface name, e.g. Address */
+  interfaceName: string;
+  attributes: {
+    attributeName: string;
+    tsPropertyName: string;
+    sqlType: string;
+    tsType: string;
+    /** Codec or composite type decoding the attribute (see ColumnTypes) */
+    valueType: string;
+  }[];
+}
+
+/**
+ * Contents of the optional introspection config file
+ * (introspectionConfig.configFile)
+ */
+interface IntrospectionFile {
+  /** TypeScript type of JSON/JSONB columns, keyed by "table.column" */
+  columns?: Record<string, string>;
+  /** Module each type is imported from, relative to the output directory */
+  imports?: Record<string, string>;
+  /** Codecs merged over introspectionConfig.codecs */
+  codecs?: Partial<CodecConfig>;
+}
+
+/**
+ * Enum and composite types of the schema, keyed by SQL type name
+ */
+interface UserDefinedTypes {
+  /** Enum name -> generated union type name */
+  enums: Map<string, string>;
+  /** Composite name -> generated interface name */
+  composites: Map<string, string>;
+}
+
+/**
+ * A SQL type resolved to its TypeScript type
+ */
+interface ResolvedType {
+  sqlType: string;
+  tsType: string;
+  /** Codec or composite type decoding the value (see ColumnTypes) */
+  valueType: string;
+  /**
+   * The value needs decoding: pg returns it as text (composites, arrays
+   * of enums/composites) or it uses a codec
+   */
+  needsDecoding: boolean;
+}
+
 /**
  * Relationship structure for code generation
  */
-interface RelationshipInfo {
+export interface RelationshipInfo {
   name: string;
-  type: "belongsTo" | "hasMany" | "hasOne";
+  type: "belongsTo" | "hasMany" | "hasOne" | "manyToMany";
   sourceTable: string;
   sourceColumn: string;
   targetTable: string;
   targetColumn: string;
   targetInterface: string;
+  through?: {
+    table: string;
+    sourceColumn: string;
+    targetColumn: string;
+  };
 }
 
 /**
  * Parsed table structure for code generation
  */
-interface TableStructure {
+export interface TableStructure {
   tableName: string;
   columns: {
     columnName: string;
@@ -62,7 +177,12 @@ interface TableStructure {
     tsType: string;
     isNullable: boolean;
     hasDefault: boolean;
+    /** Set for columns pg returns as text, decoded at runtime */
+    valueType?: string;
+    /** Import of an overridden JSON column type */
+    typeImport?: { type: string; from: string };
   }[];
+  primaryKey: string[];
   relationships: RelationshipInfo[];
 }
 
@@ -129,6 +249,18 @@ const INTROSPECTION_QUERY = `
     table_name,
     column_name,
     data_type,
+    udt_name,
+    domain_name,
+    (
+      SELECT a.attndims
+      FROM pg_attribute AS a
+      WHERE a.attrelid = format('%I.%I', table_schema, table_name)::regclass
+        AND a.attname = column_name
+    ) AS array_dimensions,
+    col_description(
+      format('%I.%I', table_schema, table_name)::regclass,
+      ordinal_position::int
+    ) AS column_comment,
     is_nullable,
     column_default,
     ordinal_position
@@ -167,6 +299,82 @@ const FOREIGN_KEYS_QUERY = `
     AND tc.table_schema = $1;
 `;
 
+/**
+ * SQL query to introspect enum types and their labels
+ */
+const ENUMS_QUERY = `
+  SELECT
+    t.typname AS enum_name,
+    e.enumlabel AS enum_value
+  FROM
+    pg_type AS t
+    JOIN pg_enum AS e ON e.enumtypid = t.oid
+    JOIN pg_namespace AS n ON n.oid = t.typnamespace
+  WHERE
+    n.nspname = $1
+  ORDER BY
+    t.typname,
+    e.enumsortorder;
+`;
+
+/**
+ * SQL query to introspect the attributes of composite types
+ */
+const COMPOSITE_TYPES_QUERY = `
+  SELECT
+    udt_name AS type_name,
+    attribute_name,
+    data_type,
+    attribute_udt_name
+  FROM
+    information_schema.attributes
+  WHERE
+    udt_schema = $1
+  ORDER BY
+    udt_name,
+    ordinal_position;
+`;
+
+/**
+ * SQL query to introspect primary key columns
+ */
+const PRIMARY_KEYS_QUERY = `
+  SELECT
+    tc.table_name,
+    kcu.column_name,
+    kcu.ordinal_position
+  FROM
+    information_schema.table_constraints AS tc
+    JOIN information_schema.key_column_usage AS kcu
+      ON tc.constraint_name = kcu.constraint_name
+      AND tc.table_schema = kcu.table_schema
+  WHERE
+    tc.constraint_type = 'PRIMARY KEY'
+    AND tc.table_schema = $1
+  ORDER BY
+    tc.table_name,
+    kcu.ordinal_position;
+`;
+
+/**
+ * Read the introspection config file, if present
+ */
+function loadIntrospectionFile(filePath: string): IntrospectionFile {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as IntrospectionFile;
+  } catch (error) {
+    throw new Error(
+      `Invalid introspection config file ${filePath}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
 /**
  * Fetch schema metadata from the database
  */
@@ -201,6 +409,370 @@ async function introspectForeignKeys(
   return result.rows;
 }
 
+/**
+ * Fetch primary key columns from the database
+ */
+async function introspectPrimaryKeys(
+  schema: string
+): Promise<PrimaryKeyInfo[]> {
+  const adapter = getDbAdapter();
+
+  const result = await adapter.query<PrimaryKeyInfo>(PRIMARY_KEYS_QUERY, [
+    schema,
+  ]);
+
+  return result.rows;
+}
+
+/**
+ * Fetch enum types from the database
+ */
+async function introspectEnums(schema: string): Promise<EnumInfo[]> {
+  const adapter = getDbAdapter();
+
+  const result = await adapter.query<EnumInfo>(ENUMS_QUERY, [schema]);
+
+  return result.rows;
+}
+
+/**
+ * Group enum labels by type
+ */
+export function processEnums(enumRows: EnumInfo[]): EnumStructure[] {
+  const enumMap = new Map<string, EnumStructure>();
+
+  for (const row of enumRows) {
+    if (!enumMap.has(row.enum_name)) {
+      enumMap.set(row.enum_name, {
+        enumName: row.enum_name,
+        typeName: snakeToPascal(row.enum_name),
+        values: [],
+      });
+    }
+    enumMap.get(row.enum_name)!.values.push(row.enum_value);
+  }
+
+  return Array.from(enumMap.values());
+}
+
+/**
+ * Fetch composite type attributes from the database
+ */
+async function introspectCompositeTypes(
+  schema: string
+): Promise<CompositeAttributeInfo[]> {
+  const adapter = getDbAdapter();
+
+  const result = await adapter.query<CompositeAttributeInfo>(
+    COMPOSITE_TYPES_QUERY,
+    [schema]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Lookup of the generated enum and composite type names
+ */
+function userDefinedTypes(
+  enums: EnumStructure[],
+  composites: CompositeStructure[]
+): UserDefinedTypes {
+  return {
+    enums: new Map(enums.map((e) => [e.enumName, e.typeName])),
+    composites: new Map(composites.map((c) => [c.typeName, c.interfaceName])),
+  };
+}
+
+/**
+ * TypeScript types of the built-in codecs
+ */
+const BUILT_IN_CODEC_TYPES: Record<string, string> = {
+  string: "string",
+  number: "number",
+  bigint: "bigint",
+  boolean: "boolean",
+  Date: "Date",
+  json: "Record<string, unknown>",
+};
+
+/**
+ * SQL type names the codec configuration uses for internal names
+ */
+const CODEC_TYPE_ALIASES: Record<string, string> = {
+  int8: "bigint",
+  decimal: "numeric",
+};
+
+/**
+ * Configured codec of a built-in type, by column ("table.column") or type
+ */
+function codecFor(sqlType: string, column?: string): string | undefined {
+  const { codecs } = introspectionConfig;
+  return (
+    (column ? codecs.columns[column] : undefined) ??
+    codecs.types[CODEC_TYPE_ALIASES[sqlType] ?? sqlType]
+  );
+}
+
+/**
+ * Merge the config file's codecs over introspectionConfig.codecs
+ * (per-type, per-column and custom entries of the file win)
+ */
+function applyCodecConfig(codecs: Partial<CodecConfig> = {}): void {
+  const defaults = introspectionConfig.codecs;
+  introspectionConfig.codecs = {
+    types: { ...defaults.types, ...codecs.types },
+    columns: { ...defaults.columns, ...codecs.columns },
+    custom: { ...defaults.custom, ...codecs.custom },
+  };
+}
+
+/**
+ * TypeScript type of a codec
+ */
+function codecTsType(codec: string): string {
+  const tsType =
+    BUILT_IN_CODEC_TYPES[codec] ??
+    introspectionConfig.codecs.custom[codec]?.type;
+  if (!tsType) {
+    throw new Error(
+      `Unknown codec "${codec}": declare its type in the custom codecs of introspectionConfig.codecs or the config file`
+    );
+  }
+  return tsType;
+}
+
+/**
+ * Resolve a built-in type, applying its configured codec
+ */
+function resolveBuiltIn(sqlType: string, column?: string): ResolvedType {
+  const codec = codecFor(sqlType, column);
+  if (codec) {
+    return {
+      sqlType,
+      tsType: codecTsType(codec),
+      valueType: codec,
+      // Registered even for "string" so aggregates keep the column's codec
+      needsDecoding: true,
+    };
+  }
+
+  const tsType = getTsType(sqlType);
+  return {
+    sqlType,
+    tsType,
+    valueType: valueTypeOf(tsType),
+    needsDecoding: false,
+  };
+}
+
+/**
+ * Value type of the text form of a scalar TypeScript type
+ */
+function valueTypeOf(tsType: string): string {
+  switch (tsType) {
+    case "number":
+    case "boolean":
+    case "Date":
+      return tsType;
+    case "Record<string, unknown>":
+      return "json";
+    default:
+      return "string";
+  }
+}
+
+/**
+ * Resolve a type by its internal name (udt_name), e.g. an array element
+ */
+function resolveUdt(
+  udtName: string,
+  types: UserDefinedTypes,
+  column?: string
+): ResolvedType {
+  const enumType = types.enums.get(udtName);
+  if (enumType) {
+    return {
+      sqlType: udtName,
+      tsType: enumType,
+      valueType: "string",
+      needsDecoding: false,
+    };
+  }
+
+  const compositeType = types.composites.get(udtName);
+  if (compositeType) {
+    return {
+      sqlType: udtName,
+      tsType: compositeType,
+      valueType: udtName,
+      needsDecoding: true,
+    };
+  }
+
+  return resolveBuiltIn(udtName, column);
+}
+
+/**
+ * Resolve a column or attribute type to its TypeScript type
+ *
+ * Arrays use the element type from udt_name ("_text" -> text) with one
+ * [] per declared dimension; enum and composite types use their
+ * generated types. Arrays of enums and composites are returned as text
+ * by pg, so they are flagged for runtime decoding like composites.
+ * bigint and numeric values use the codec configured for the column or
+ * type (introspectionConfig.codecs).
+ *
+ * @param dimensions - Declared array dimensions (0 or null: one)
+ * @param column - "table.column", for per-column codecs
+ */
+function resolveType(
+  dataType: string,
+  udtName: string,
+  dimensions: number | null,
+  types: UserDefinedTypes,
+  column?: string
+): ResolvedType {
+  if (dataType === "ARRAY") {
+    const elementName = udtName.replace(/^_/, "");
+    const element = resolveUdt(elementName, types, column);
+    const suffix = "[]".repeat(Math.max(dimensions ?? 1, 1));
+    return {
+      sqlType: `${element.sqlType}${suffix}`,
+      tsType: `${element.tsType}${suffix}`,
+      valueType: `${element.valueType}${suffix}`,
+      // Elements of codec arrays are parsed by the codec
+      needsDecoding:
+        element.needsDecoding ||
+        types.enums.has(elementName) ||
+        element.tsType === "unknown" ||
+        codecFor(elementName, column) !== undefined,
+    };
+  }
+
+  if (dataType === "USER-DEFINED") {
+    return resolveUdt(udtName, types, column);
+  }
+
+  return resolveBuiltIn(dataType, column);
+}
+
+/**
+ * Group composite type attributes by type and resolve their types
+ */
+function processCompositeTypes(
+  attributeRows: CompositeAttributeInfo[],
+  enums: EnumStructure[] = []
+): CompositeStructure[] {
+  const compositeMap = new Map<string, CompositeStructure>();
+
+  for (const row of attributeRows) {
+    if (!compositeMap.has(row.type_name)) {
+      compositeMap.set(row.type_name, {
+        typeName: row.type_name,
+        interfaceName: snakeToPascal(row.type_name),
+        attributes: [],
+      });
+    }
+  }
+
+  // Attributes may use other composite types of the schema
+  const types = userDefinedTypes(enums, Array.from(compositeMap.values()));
+
+  for (const row of attributeRows) {
+    const resolved = resolveType(
+      row.data_type,
+      row.attribute_udt_name,
+      null,
+      types
+    );
+    compositeMap.get(row.type_name)!.attributes.push({
+      attributeName: row.attribute_name,
+      tsPropertyName: snakeToCamel(row.attribute_name),
+      sqlType: resolved.sqlType,
+      tsType: resolved.tsType,
+      valueType: resolved.valueType,
+    });
+  }
+
+  return Array.from(compositeMap.values());
+}
+
+/**
+ * `@type` tag of a column comment, e.g. "User settings @type Settings"
+ */
+const TYPE_TAG = /@type\s+(\S+)/;
+
+/**
+ * Type JSON/JSONB columns from the config file or their `@type` comment
+ * tag (the config file wins), importing the type when it is listed in
+ * the file's imports
+ */
+function processJsonTypes(
+  tables: TableStructure[],
+  columns: ColumnInfo[],
+  file: IntrospectionFile
+): void {
+  const tableMap = new Map(tables.map((t) => [t.tableName, t]));
+  const unmatched = new Set(Object.keys(file.columns ?? {}));
+
+  for (const col of columns) {
+    const key = `${col.table_name}.${col.column_name}`;
+    unmatched.delete(key);
+
+    const tsType =
+      file.columns?.[key] ?? col.column_comment?.match(TYPE_TAG)?.[1];
+    if (!tsType) continue;
+
+    if (!isJsonType(col.data_type)) {
+      console.warn(
+        `⚠️  Ignoring type ${tsType} of ${key}: only json/jsonb columns can be typed`
+      );
+      continue;
+    }
+
+    const column = tableMap
+      .get(col.table_name)
+      ?.columns.find((c) => c.columnName === col.column_name);
+    if (!column) continue;
+
+    // Import the leading identifier, e.g. Tag of Tag[]
+    const typeName = tsType.match(/^[A-Za-z_$][\w$]*/)?.[0];
+    const from = typeName ? file.imports?.[typeName] : undefined;
+
+    column.tsType = `Json<${tsType}>`;
+    column.typeImport = typeName && from ? { type: typeName, from } : undefined;
+    // Serialized with JSON.stringify (pg would send arrays as SQL arrays)
+    column.valueType = "json";
+  }
+
+  for (const key of unmatched) {
+    console.warn(`⚠️  Ignoring type of unknown column ${key}`);
+  }
+}
+
+/**
+ * Whether a column's data_type is json or jsonb
+ */
+function isJsonType(dataType: string): boolean {
+  return dataType === "json" || dataType === "jsonb";
+}
+
+/**
+ * Attach primary key columns to their tables
+ */
+function processPrimaryKeys(
+  tables: TableStructure[],
+  primaryKeys: PrimaryKeyInfo[]
+): void {
+  const tableMap = new Map(tables.map((t) => [t.tableName, t]));
+
+  for (const pk of primaryKeys) {
+    tableMap.get(pk.table_name)?.primaryKey.push(pk.column_name);
+  }
+}
+
 /**
  * Process foreign keys into relationship definitions
  */
@@ -243,31 +815,109 @@ function processRelationships(
       targetInterface: sourceInterfaceName,
     });
   }
+
+  processJunctionTables(tables, foreignKeys);
+}
+
+/**
+ * Detect junction tables and add manyToMany relationships
+ *
+ * A junction table has a composite primary key made of exactly two
+ * columns, each a foreign key to a different table
+ * (e.g. post_categories (post_id, category_id)). Both referenced tables
+ * get a relationship named after the other table
+ * (e.g. Post.categories and Category.posts).
+ */
+function processJunctionTables(
+  tables: TableStructure[],
+  foreignKeys: ForeignKeyInfo[]
+): void {
+  const tableMap = new Map(tables.map((t) => [t.tableName, t]));
+
+  for (const junction of tables) {
+    if (junction.primaryKey.length !== 2) continue;
+
+    const [first, second] = junction.primaryKey.map((column) =>
+      foreignKeys.find(
+        (fk) =>
+          fk.source_table === junction.tableName && fk.source_column === column
+      )
+    );
+
+    if (!first || !second || first.target_table === second.target_table) {
+      continue;
+    }
+
+    for (const [from, to] of [
+      [first, second],
+      [second, first],
+    ]) {
+      const sourceTable = tableMap.get(from.target_table);
+      if (!sourceTable || !tableMap.has(to.target_table)) continue;
+
+      const name = snakeToCamel(to.target_table); // Keep plural
+      if (sourceTable.relationships.some((r) => r.name === name)) continue;
+
+      sourceTable.relationships.push({
+        name,
+        type: "manyToMany",
+        sourceTable: from.target_table,
+        sourceColumn: from.target_column,
+        targetTable: to.target_table,
+        targetColumn: to.target_column,
+        targetInterface: snakeToPascal(singularize(to.target_table)),
+        through: {
+          table: junction.tableName,
+          sourceColumn: from.source_column,
+          targetColumn: to.source_column,
+        },
+      });
+    }
+  }
 }
 
 /**
  * Group columns by table and transform to TypeScript structure
+ * Enum and composite columns (USER-DEFINED) use their generated types
  */
-function processSchemaData(columns: ColumnInfo[]): TableStructure[] {
+export function processSchemaData(
+  columns: ColumnInfo[],
+  enums: EnumStructure[] = [],
+  composites: CompositeStructure[] = []
+): TableStructure[] {
   const tableMap = new Map<string, TableStructure>();
+  const types = userDefinedTypes(enums, composites);
 
   for (const col of columns) {
     if (!tableMap.has(col.table_name)) {
       tableMap.set(col.table_name, {
         tableName: col.table_name,
         columns: [],
+        primaryKey: [],
         relationships: [],
       });
     }
 
     const table = tableMap.get(col.table_name)!;
+    // Domain columns report their base type in data_type/udt_name
+    const resolved = resolveType(
+      col.data_type,
+      col.udt_name,
+      col.array_dimensions,
+      types,
+      `${col.table_name}.${col.column_name}`
+    );
     table.columns.push({
       columnName: col.column_name,
       tsPropertyName: snakeToCamel(col.column_name),
-      sqlType: col.data_type,
-      tsType: getTsType(col.data_type),
+      sqlType: col.domain_name
+        ? `${col.domain_name} (domain over ${resolved.sqlType})`
+        : resolved.sqlType,
+      // json/jsonb columns are branded for QueryBuilder.whereJson()
+      tsType: isJsonType(col.data_type) ? "Json" : resolved.tsType,
       isNullable: col.is_nullable === "YES",
       hasDefault: col.column_default !== null,
+      valueType: resolved.needsDecoding ? resolved.valueType : undefined,
     });
   }
 
@@ -293,7 +943,7 @@ function generateInterface(table: TableStructure): string {
   // Generate relationship properties (optional by default)
   const relationshipProps = table.relationships
     .map((rel) => {
-      if (rel.type === "hasMany") {
+      if (rel.type === "hasMany" || rel.type === "manyToMany") {
         return `  /** Relationship: ${rel.type} ${rel.targetInterface} */\n  ${rel.name}?: ${rel.targetInterface}[];`;
       } else {
         return `  /** Relationship: ${rel.type} ${rel.targetInterface} */\n  ${rel.name}?: ${rel.targetInterface};`;
@@ -315,10 +965,143 @@ ${allProperties}
 }`;
 }
 
+/**
+ * Generate the union type and runtime value list of an enum
+ */
+function generateEnum(enumType: EnumStructure): string {
+  const literals = enumType.values.map((v) => JSON.stringify(v));
+  const valuesName =
+    enumType.typeName.charAt(0).toLowerCase() +
+    enumType.typeName.slice(1) +
+    "Values";
+
+  return `/**
+ * Generated from enum: ${enumType.enumName}
+ */
+export type ${enumType.typeName} = ${literals.join(" | ") || "never"};
+
+/**
+ * Values of ${enumType.typeName} in declaration order
+ */
+export const ${valuesName}: readonly ${enumType.typeName}[] = [${literals.join(
+    ", "
+  )}];`;
+}
+
+/**
+ * Generate the interface of a composite type
+ * Attributes of composite types are always nullable
+ */
+function generateCompositeInterface(composite: CompositeStructure): string {
+  const properties = composite.attributes
+    .map(
+      (attr) =>
+        `  /** SQL: ${attr.sqlType} */\n  ${attr.tsPropertyName}: ${attr.tsType} | null;`
+    )
+    .join("\n");
+
+  return `/**
+ * Generated from composite type: ${composite.typeName}
+ */
+export interface ${composite.interfaceName} {
+${properties}
+}`;
+}
+
+/**
+ * Generate the runtime metadata of columns pg returns as text
+ * Empty when no column needs decoding
+ */
+function generateColumnTypes(
+  tables: TableStructure[],
+  composites: CompositeStructure[]
+): string {
+  const columns = tables
+    .map((t) => {
+      const textColumns = t.columns
+        .filter((c) => c.valueType)
+        .map((c) => `${c.columnName}: "${c.valueType}"`);
+      return textColumns.length > 0
+        ? `    ${t.tableName}: { ${textColumns.join(", ")} }`
+        : null;
+    })
+    .filter((entry) => entry !== null);
+
+  if (columns.length === 0) return "";
+
+  const compositeTypes = composites
+    .map((c) => {
+      const attributes = c.attributes
+        .map((a) => `${a.attributeName}: "${a.valueType}"`)
+        .join(", ");
+      return `    ${c.typeName}: { ${attributes} }`;
+    })
+    .join(",\n");
+
+  return `
+/**
+ * Composite types and columns pg returns as text, decoded at runtime
+ */
+export const columnTypes = {
+  composites: {
+${compositeTypes}
+  },
+  columns: {
+${columns.join(",\n")}
+  },
+};
+`;
+}
+
+/**
+ * Generate the imports of the custom codec types and JSON column types
+ * the models use
+ */
+function generateTypeImports(
+  tables: TableStructure[],
+  composites: CompositeStructure[]
+): string {
+  const valueTypes = [
+    ...tables.flatMap((t) => t.columns.map((c) => c.valueType)),
+    ...composites.flatMap((c) => c.attributes.map((a) => a.valueType)),
+  ];
+  const typeImports = [
+    ...valueTypes.map(
+      (valueType) =>
+        valueType &&
+        introspectionConfig.codecs.custom[valueType.replace(/(\[\])+$/, "")]
+    ),
+    ...tables.flatMap((t) => t.columns.map((c) => c.typeImport)),
+  ];
+  if (tables.some((t) => t.columns.some((c) => /^Json\b/.test(c.tsType)))) {
+    typeImports.unshift({ type: "Json", from: "../src/query/JsonPath" });
+  }
+
+  // Type names per module
+  const imports = new Map<string, Set<string>>();
+  for (const typeImport of typeImports) {
+    if (!typeImport) continue;
+    if (!imports.has(typeImport.from)) imports.set(typeImport.from, new Set());
+    imports.get(typeImport.from)!.add(typeImport.type);
+  }
+
+  return Array.from(imports)
+    .map(
+      ([from, names]) =>
+        `import { ${Array.from(names).join(", ")} } from "${from}";\n`
+    )
+    .join("")
+    .concat(imports.size > 0 ? "\n" : "");
+}
+
 /**
  * Generate the complete models.ts file content
  */
-function generateModelsFile(tables: TableStructure[]): string {
+export function generateModelsFile(
+  tables: TableStructure[],
+  enums: EnumStructure[] = [],
+  composites: CompositeStructure[] = []
+): string {
   const header = `/**
  * IblalORM Generated Models
  * 
@@ -332,6 +1115,10 @@ function generateModelsFile(tables: TableStructure[]): string {
 
 `;
 
+  const enumTypes = enums.map((e) => generateEnum(e) + "\n\n").join("");
+  const compositeInterfaces = composites
+    .map((c) => generateCompositeInterface(c) + "\n\n")
+    .join("");
   const interfaces = tables.map(generateInterface).join("\n\n");
 
   // Generate WithRelations types for type-safe .include()
@@ -356,10 +1143,12 @@ export type ${interfaceName}WithRelations<R extends ${relationNames}> = ${interf
     .map((t) => {
       const interfaceName = snakeToPascal(singularize(t.tableName));
       const relations = t.relationships
-        .map(
-          (r) =>
-            `    ${r.name}: { type: "${r.type}", targetTable: "${r.targetTable}", sourceColumn: "${r.sourceColumn}", targetColumn: "${r.targetColumn}" }`
-        )
+        .map((r) => {
+          const through = r.through
+            ? `, through: { table: "${r.through.table}", sourceColumn: "${r.through.sourceColumn}", targetColumn: "${r.through.targetColumn}" }`
+            : "";
+          return `    ${r.name}: { type: "${r.type}", targetTable: "${r.targetTable}", sourceColumn: "${r.sourceColumn}", targetColumn: "${r.targetColumn}", targetModel: "${r.targetInterface}"${through} }`;
+        })
         .join(",\n");
       return `  ${interfaceName}: {\n${relations}\n  }`;
     })
@@ -404,14 +1193,44 @@ export type TableType<T extends TableName> = TableMap[T];
 
   return (
     header +
+    generateTypeImports(tables, composites) +
+    enumTypes +
+    compositeInterfaces +
     interfaces +
     "\n\n" +
     withRelationsTypes +
     relationshipMetaExport +
+    generateColumnTypes(tables, composites) +
     tableMapType
   );
 }
 
+/**
+ * Primary key columns of a table as camelCase property names
+ */
+function getPrimaryKeyFields(table: TableStructure): string[] {
+  return table.primaryKey.map((column) => snakeToCamel(column));
+}
+
+/**
+ * Fields generated by the database, excluded from inserts:
+ * primary key columns with a default (serial, uuid) plus
+ * createdAt/updatedAt when they have a default
+ */
+function getAutoFields(table: TableStructure): string[] {
+  const primaryKey = getPrimaryKeyFields(table);
+
+  return table.columns
+    .filter(
+      (c) =>
+        c.hasDefault &&
+        (primaryKey.includes(c.tsPropertyName) ||
+          c.tsPropertyName === "createdAt" ||
+          c.tsPropertyName === "updatedAt")
+    )
+    .map((c) => c.tsPropertyName);
+}
+
 /**
  * Generate the client.ts file with table accessors
  */
@@ -425,38 +1244,28 @@ function generateClientFile(tables: TableStructure[]): string {
   const hasRelationships = tables.some((t) => t.relationships.length > 0);
   const relationshipMetaImport = hasRelationships ? ", relationshipMeta" : "";
 
+  // Check if any column is returned as text and decoded at runtime
+  const hasColumnTypes = tables.some((t) => t.columns.some((c) => c.valueType));
+  const columnTypesImport = hasColumnTypes ? ", columnTypes" : "";
+
   // Generate auto field types based on actual table columns
   const autoFieldTypes = tables
     .map((t) => {
       const name = snakeToPascal(singularize(t.tableName));
-      const columnNames = new Set(t.columns.map((c) => c.tsPropertyName));
-
-      // Only include fields that actually exist in the table AND have defaults
-      const autoFields: string[] = [];
-      if (columnNames.has("id")) {
-        const idCol = t.columns.find((c) => c.tsPropertyName === "id");
-        if (idCol?.hasDefault) autoFields.push("id");
-      }
-      if (columnNames.has("createdAt")) {
-        const createdAtCol = t.columns.find(
-          (c) => c.tsPropertyName === "createdAt"
-        );
-        if (createdAtCol?.hasDefault) autoFields.push("createdAt");
-      }
-      if (columnNames.has("updatedAt")) {
-        const updatedAtCol = t.columns.find(
-          (c) => c.tsPropertyName === "updatedAt"
-        );
-        if (updatedAtCol?.hasDefault) autoFields.push("updatedAt");
-      }
-
-      if (autoFields.length === 0) {
-        return `export type ${name}AutoFields = never;`;
-      }
+      const autoFields = getAutoFields(t);
+      const primaryKey = getPrimaryKeyFields(t);
 
-      return `export type ${name}AutoFields = ${autoFields
-        .map((f) => `"${f}"`)
-        .join(" | ")};`;
+      const autoFieldsType =
+        autoFields.length > 0
+          ? autoFields.map((f) => `"${f}"`).join(" | ")
+          : "never";
+      const primaryKeyType =
+        primaryKey.length > 0
+          ? primaryKey.map((f) => `"${f}"`).join(" | ")
+          : "never";
+
+      return `export type ${name}AutoFields = ${autoFieldsType};
+export type ${name}PrimaryKey = ${primaryKeyType};`;
     })
     .join("\n");
 
@@ -464,26 +1273,8 @@ function generateClientFile(tables: TableStructure[]): string {
     .map((t) => {
       const interfaceName = snakeToPascal(singularize(t.tableName));
       const propName = singularize(t.tableName);
-      const columnNames = new Set(t.columns.map((c) => c.tsPropertyName));
-
       // Build auto-excludes comment based on actual fields
-      const autoFields: string[] = [];
-      if (columnNames.has("id")) {
-        const idCol = t.columns.find((c) => c.tsPropertyName === "id");
-        if (idCol?.hasDefault) autoFields.push("id");
-      }
-      if (columnNames.has("createdAt")) {
-        const createdAtCol = t.columns.find(
-          (c) => c.tsPropertyName === "createdAt"
-        );
-        if (createdAtCol?.hasDefault) autoFields.push("createdAt");
-      }
-      if (columnNames.has("updatedAt")) {
-        const updatedAtCol = t.columns.find(
-          (c) => c.tsPropertyName === "updatedAt"
-        );
-        if (updatedAtCol?.hasDefault) autoFields.push("updatedAt");
-      }
+      const autoFields = getAutoFields(t);
 
       const autoExcludesComment =
         autoFields.length > 0
@@ -494,7 +1285,7 @@ function generateClientFile(tables: TableStructure[]): string {
    * Table accessor for \`${t.tableName}\` table
    * ${autoExcludesComment}
    */
-  public readonly ${propName}: Table<${interfaceName}, ${interfaceName}AutoFields>;`;
+  public readonly ${propName}: Table<${interfaceName}, ${interfaceName}AutoFields, ${interfaceName}PrimaryKey>;`;
     })
     .join("\n\n");
 
@@ -503,45 +1294,23 @@ function generateClientFile(tables: TableStructure[]): string {
       const interfaceName = snakeToPascal(singularize(t.tableName));
       const propName = singularize(t.tableName);
       const hasRels = t.relationships.length > 0;
-      const columnNames = new Set(t.columns.map((c) => c.tsPropertyName));
-
-      // Build array of actual auto fields
-      const autoFields: string[] = [];
-      if (columnNames.has("id")) {
-        const idCol = t.columns.find((c) => c.tsPropertyName === "id");
-        if (idCol?.hasDefault) autoFields.push("id");
-      }
-      if (columnNames.has("createdAt")) {
-        const createdAtCol = t.columns.find(
-          (c) => c.tsPropertyName === "createdAt"
-        );
-        if (createdAtCol?.hasDefault) autoFields.push("createdAt");
-      }
-      if (columnNames.has("updatedAt")) {
-        const updatedAtCol = t.columns.find(
-          (c) => c.tsPropertyName === "updatedAt"
-        );
-        if (updatedAtCol?.hasDefault) autoFields.push("updatedAt");
-      }
-
-      const autoFieldsArray =
-        autoFields.length > 0
-          ? `[${autoFields.map((f) => `"${f}"`).join(", ")}]`
-          : "[]";
+      // Build arrays of actual auto fields and primary key columns
+      const autoFieldsArray = `[${getAutoFields(t)
+        .map((f) => `"${f}"`)
+        .join(", ")}]`;
+      const primaryKeyArray = `[${getPrimaryKeyFields(t)
+        .map((f) => `"${f}"`)
+        .join(", ")}]`;
 
-      if (hasRels) {
-        return `    this.${propName} = new Table<${interfaceName}, ${interfaceName}AutoFields>(
+      return `    this.${propName} = new Table<${interfaceName}, ${interfaceName}AutoFields, ${interfaceName}PrimaryKey>(
       "${t.tableName}",
       ${autoFieldsArray},
       "${interfaceName}",
-      relationshipMeta.${interfaceName}
-    );`;
-      } else {
-        return `    this.${propName} = new Table<${interfaceName}, ${interfaceName}AutoFields>(
-      "${t.tableName}",
-      ${autoFieldsArray}
+      ${hasRels ? `relationshipMeta.${interfaceName}` : "{}"},
+      ${primaryKeyArray},
+      this.executor,
+      ${t.columns.some((c) => c.columnName === "updated_at")}
     );`;
-      }
     })
     .join("\n\n");
 
@@ -558,12 +1327,40 @@ function generateClientFile(tables: TableStructure[]): string {
  */
 
 import { Table } from "../src/query/Table";
-import { getDbAdapter, DbAdapter } from "../src/db/DbAdapter";
+import { getDbAdapter, DbAdapter, Queryable } from "../src/db/DbAdapter";
+import {
+  transaction,
+  IsolationLevel,
+  TransactionOptions,
+  TransactionClient,
+} from "../src/transactions/TransactionManager";${
+    hasRelationships
+      ? `\nimport { registerRelationMeta } from "../src/query/RelationLoader";`
+      : ""
+  }${
+    hasColumnTypes
+      ? `\nimport { registerColumnTypes } from "../src/query/ColumnTypes";`
+      : ""
+  }
 
 // Import generated model types${
     hasRelationships ? " and relationship metadata" : ""
   }
-import { ${imports}${relationshipMetaImport} } from "./models";
+import { ${imports}${relationshipMetaImport}${columnTypesImport} } from "./models";${
+    hasRelationships
+      ? `
+
+// Register relationship metadata for nested includes
+registerRelationMeta(relationshipMeta);`
+      : ""
+  }${
+    hasColumnTypes
+      ? `
+
+// Register composite and array column types for decoding
+registerColumnTypes(columnTypes);`
+      : ""
+  }
 
 // ============================================================================
 // Auto-Generated Field Types
@@ -572,6 +1369,8 @@ import { ${imports}${relationshipMetaImport} } from "./models";
 /**
  * Fields that are auto-generated by the database
  * These are excluded from INSERT operations
+ *
+ * Primary key columns are used by findById/updateById/deleteById
  */
 ${autoFieldTypes}
 
@@ -596,16 +1395,72 @@ ${autoFieldTypes}
  */
 export class IblalClient {
   private adapter: DbAdapter;
+  private executor: Queryable;
 
 ${tableProperties}
 
-  constructor() {
-    this.adapter = getDbAdapter();
+  /**
+   * @param executor - Runs every query of this client: a DbAdapter for
+   *   another database, or a TransactionClient (as passed by
+   *   transaction()); defaults to the shared DbAdapter
+   */
+  constructor(executor?: Queryable) {
+    if (executor instanceof DbAdapter) {
+      this.adapter = executor;
+    } else if (executor instanceof TransactionClient && executor.adapter) {
+      this.adapter = executor.adapter;
+    } else {
+      this.adapter = getDbAdapter();
+    }
+    this.executor = executor ?? this.adapter;
 
     // Initialize table accessors
 ${tableInitializers}
   }
 
+  /**
+   * Run a callback inside a transaction
+   *
+   * The callback receives a client whose table accessors, query builders
+   * and relationship loads all run on the transaction's connection.
+   * COMMIT on success, ROLLBACK if the callback throws.
+   *
+   * Called on a transaction-scoped client, it nests using a SAVEPOINT
+   * on the same connection instead of starting a new transaction.
+   *
+   * @example
+   * await db.transaction(async (tx) => {
+   *   const user = await tx.user.insert({ ... });
+   *   await tx.post.insert({ authorId: user.id, ... });
+   * });
+   *
+   * @param options - Isolation level, or a TransactionOptions object
+   *   (access mode, timeouts, SET LOCAL settings, retry policy)
+   */
+  async transaction<T>(
+    callback: (tx: IblalClient, attempt: number) => Promise<T>,
+    options: IsolationLevel | TransactionOptions = {}
+  ): Promise<T> {
+    const transactionOptions =
+      typeof options === "string" ? { isolationLevel: options } : options;
+
+    if (this.executor instanceof TransactionClient) {
+      if (
+        Object.values(transactionOptions).some((value) => value !== undefined)
+      ) {
+        throw new Error(
+          "Transaction options cannot be set on a nested transaction"
+        );
+      }
+      return this.executor.transaction(() => callback(this, 1));
+    }
+
+    return transaction(
+      (trx, attempt) => callback(new IblalClient(trx), attempt),
+      { adapter: this.adapter, ...transactionOptions }
+    );
+  }
+
   /**
    * Test the database connection
    */
@@ -632,7 +1487,7 @@ ${tableInitializers}
    * Use parameterized queries for safety!
    */
   async raw<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
-    const result = await this.adapter.query(sql, params);
+    const result = await this.executor.query(sql, params);
     return result.rows as T[];
   }
 }
@@ -655,9 +1510,18 @@ export function getClient(): IblalClient {
 
 /**
  * Create a new database client instance
+ *
+ * @param connection - An adapter or the name of a registered connection;
+ *   defaults to the shared adapter
+ *
+ * @example
+ * registerConnection("analytics", process.env.ANALYTICS_DATABASE_URL!);
+ * const analytics = createClient("analytics");
  */
-export function createClient(): IblalClient {
-  return new IblalClient();
+export function createClient(connection?: DbAdapter | string): IblalClient {
+  return new IblalClient(
+    typeof connection === "string" ? getDbAdapter(connection) : connection
+  );
 }
 
 // Convenience export
@@ -716,13 +1580,47 @@ async function main(): Promise<void> {
       return;
     }
 
+    // Introspect enum types (typed as string literal unions)
+    const enums = processEnums(
+      await introspectEnums(introspectionConfig.schema)
+    );
+    if (enums.length > 0) {
+      console.log(`\n🏷️  Found ${enums.length} enum type(s):`);
+      enums.forEach((e) => {
+        console.log(`   - ${e.enumName} (${e.values.join(", ")})`);
+      });
+    }
+
+    // Read the config file (its codecs apply to composites and tables)
+    const file = loadIntrospectionFile(
+      path.join(process.cwd(), introspectionConfig.configFile)
+    );
+    applyCodecConfig(file.codecs);
+
+    // Introspect composite types (generated as interfaces)
+    const composites = processCompositeTypes(
+      await introspectCompositeTypes(introspectionConfig.schema),
+      enums
+    );
+    if (composites.length > 0) {
+      console.log(`\n🧩 Found ${composites.length} composite type(s):`);
+      composites.forEach((c) => {
+        console.log(`   - ${c.typeName} (${c.attributes.length} attributes)`);
+      });
+    }
+
     // Process the schema data
-    const tables = processSchemaData(columns);
+    const tables = processSchemaData(columns, enums, composites);
+    processJsonTypes(tables, columns, file);
     console.log(`\n📊 Processing ${tables.length} table(s):`);
     tables.forEach((t) => {
       console.log(`   - ${t.tableName} (${t.columns.length} columns)`);
     });
 
+    // Introspect primary keys (used to detect junction tables)
+    const primaryKeys = await introspectPrimaryKeys(introspectionConfig.schema);
+    processPrimaryKeys(tables, primaryKeys);
+
     // Introspect foreign key relationships
     const foreignKeys = await introspectForeignKeys(introspectionConfig.schema);
     processRelationships(tables, foreignKeys);
@@ -745,7 +1643,7 @@ async function main(): Promise<void> {
 
     // Generate TypeScript code
     console.log("\n🔨 Generating TypeScript interfaces...");
-    const generatedCode = generateModelsFile(tables);
+    const generatedCode = generateModelsFile(tables, enums, composites);
 
     // Write models file
     const outputPath = path.join(
@@ -780,5 +1678,7 @@ async function main(): Promise<void> {
   }
 }
 
-// Run the CLI
-main();
+// Run the CLI (the processing functions are exported for tests)
+if (require.main === module) {
+  main();
+}
@@ -29,43 +29,65 @@ export const dbConfig: PoolConfig = {
   connectionTimeoutMillis: 5000, // Return an error after 5 seconds if connection cannot be established
 };
 
+/**
+ * Read replica connection strings (comma-separated DB_REPLICA_URLS)
+ * QueryBuilder reads on the shared adapter are spread across these
+ */
+export const dbReplicaUrls: string[] = (process.env.DB_REPLICA_URLS || "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter((url) => url.length > 0);
+
 /**
  * SQL to TypeScript Type Mapping
  *
  * Maps PostgreSQL data types to their corresponding TypeScript primitives.
  * This mapping is used during schema introspection to generate type-safe interfaces.
+ * Keys are data_type names as well as internal udt_names (int4, bool...),
+ * which name the element types of arrays.
  */
 export const sqlToTsTypeMap: Record<string, string> = {
   // Numeric types
+  // bigint and numeric are returned as strings by pg to keep their
+  // precision; introspectionConfig.codecs may map them to other types
   smallint: "number",
   integer: "number",
-  bigint: "number",
-  decimal: "number",
-  numeric: "number",
+  bigint: "string",
+  decimal: "string",
+  numeric: "string",
   real: "number",
   "double precision": "number",
   serial: "number",
-  bigserial: "number",
+  bigserial: "string",
+  int2: "number",
+  int4: "number",
+  int8: "string",
+  float4: "number",
+  float8: "number",
 
   // Character types
   "character varying": "string",
   varchar: "string",
   character: "string",
   char: "string",
+  bpchar: "string",
   text: "string",
   name: "string",
 
   // Boolean type
   boolean: "boolean",
+  bool: "boolean",
 
   // Date/Time types
   "timestamp without time zone": "Date",
   "timestamp with time zone": "Date",
   timestamp: "Date",
+  timestamptz: "Date",
   date: "Date",
   "time without time zone": "string",
   "time with time zone": "string",
   time: "string",
+  timetz: "string",
   interval: "string",
 
   // UUID type
@@ -78,8 +100,9 @@ export const sqlToTsTypeMap: Record<string, string> = {
   // Binary types
   bytea: "Buffer",
 
-  // Array types (basic support)
-  ARRAY: "unknown[]",
+  // Arrays of unmapped element types
+  // (introspect types arrays by their element type from udt_name)
+  array: "unknown[]",
 
   // Network types
   inet: "string",
@@ -100,6 +123,34 @@ export function getTsType(sqlType: string): string {
   return sqlToTsTypeMap[normalizedType] || "unknown";
 }
 
+/**
+ * TypeScript type of a custom codec, imported into the generated models
+ */
+export interface CodecTypeConfig {
+  /** Type name, e.g. "Decimal" */
+  type: string;
+  /** Module exporting the type, e.g. "decimal.js" */
+  from: string;
+}
+
+/**
+ * Codecs applied to bigint and numeric values
+ *
+ * - "string": the exact value as returned by pg (default)
+ * - "bigint": a native BigInt (bigint columns)
+ * - "number": a JavaScript number (loses precision past 2^53)
+ * - a custom codec registered at runtime with registerCodec(), whose
+ *   TypeScript type is declared in `custom`
+ */
+export interface CodecConfig {
+  /** Codec per SQL type (bigint, numeric) */
+  types: Record<string, string>;
+  /** Codec per column ("table.column"), overriding the type's codec */
+  columns: Record<string, string>;
+  /** TypeScript types of custom codecs */
+  custom: Record<string, CodecTypeConfig>;
+}
+
 /**
  * Configuration for the introspection process
  */
@@ -112,4 +163,21 @@ export const introspectionConfig = {
 
   // Output filename for generated models
   outputFile: "models.ts",
+
+  // Optional JSON file typing JSON/JSONB columns and setting codecs, e.g.
+  // { "columns": { "users.settings": "UserSettings" },
+  //   "imports": { "UserSettings": "../src/types/settings" },
+  //   "codecs": { "types": { "bigint": "bigint" } } }
+  configFile: process.env.IBLAL_INTROSPECT_CONFIG || "iblal.introspect.json",
+
+  // Codecs for bigint and numeric columns (the config file's "codecs"
+  // are merged over these), e.g.
+  // { types: { bigint: "bigint", numeric: "decimal" },
+  //   columns: { "posts.view_count": "number" },
+  //   custom: { decimal: { type: "Decimal", from: "decimal.js" } } }
+  codecs: {
+    types: { bigint: "string", numeric: "string" },
+    columns: {},
+    custom: {},
+  } as CodecConfig,
 };
@@ -0,0 +1,231 @@
+/**
+ * IblalORM Database Errors
+ *
+ * Maps pg driver failures to typed errors by SQLSTATE so callers can
+ * tell a unique violation from a dropped connection:
+ *
+ *   try {
+ *     await db.user.insert({ email });
+ *   } catch (error) {
+ *     if (error instanceof UniqueConstraintError && error.column === "email") {
+ *       // email already taken
+ *     }
+ *   }
+ */
+
+/**
+ * Redaction settings for the SQL and params attached to errors
+ */
+export interface ErrorRedactionOptions {
+  /** Replace the SQL text with "[REDACTED]" */
+  sql?: boolean;
+  /**
+   * Replace params with "[REDACTED]", drop the value-bearing pg detail and
+   * redact the values quoted in pg's message
+   */
+  params?: boolean;
+}
+
+const REDACTED = "[REDACTED]";
+
+let redaction: ErrorRedactionOptions = {};
+
+/**
+ * Configure which query details are kept on database errors
+ *
+ * @example
+ * // Keep user data out of logs and error trackers
+ * configureErrorRedaction({ params: true });
+ */
+export function configureErrorRedaction(options: ErrorRedactionOptions): void {
+  redaction = { ...options };
+}
+
+/**
+ * Fields PostgreSQL attaches to a failed query
+ */
+interface PgErrorFields {
+  code?: string;
+  detail?: string;
+  table?: string;
+  column?: string;
+  constraint?: string;
+}
+
+/**
+ * Base class for every error raised by a database operation
+ */
+export class DatabaseError extends Error {
+  /** SQLSTATE, or the Node.js error code for network failures */
+  readonly code?: string;
+  /** Violated constraint name */
+  readonly constraint?: string;
+  /** Table the error refers to */
+  readonly table?: string;
+  /** First affected column, camelCase */
+  readonly column?: string;
+  /** All affected columns, camelCase (e.g. of a composite unique key) */
+  readonly columns: string[];
+  /** pg error detail (contains values, dropped when params are redacted) */
+  readonly detail?: string;
+  /** The failing SQL */
+  readonly sql?: string;
+  /** The failing query's params */
+  readonly params?: unknown[] | string;
+
+  constructor(
+    message: string,
+    fields: PgErrorFields = {},
+    sql?: string,
+    params?: unknown[],
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.code = fields.code;
+    this.constraint = fields.constraint;
+    this.table = fields.table;
+    this.columns = errorColumns(fields).map(snakeToCamel);
+    this.column = this.columns[0];
+    this.detail = redaction.params ? undefined : fields.detail;
+    this.sql = redaction.sql && sql !== undefined ? REDACTED : sql;
+    this.params = redaction.params && params !== undefined ? REDACTED : params;
+  }
+}
+
+/** 23505 unique_violation */
+export class UniqueConstraintError extends DatabaseError {}
+
+/** 23503 foreign_key_violation */
+export class ForeignKeyError extends DatabaseError {}
+
+/** 23502 not_null_violation */
+export class NotNullError extends DatabaseError {}
+
+/** 23514 check_violation */
+export class CheckError extends DatabaseError {}
+
+/** 40001 serialization_failure and 40P01 deadlock_detected (retryable) */
+export class SerializationError extends DatabaseError {}
+
+/** Connection failures: class 08, server shutdown, network errors */
+export class ConnectionError extends DatabaseError {}
+
+/** 57014 query_canceled (statement_timeout) and 55P03 lock_not_available */
+export class QueryTimeoutError extends DatabaseError {}
+
+const CONNECTION_CODES = new Set([
+  "57P01", // admin_shutdown
+  "57P02", // crash_shutdown
+  "57P03", // cannot_connect_now
+  "53300", // too_many_connections
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EPIPE",
+]);
+
+/**
+ * Pick the error class for a SQLSTATE / driver error
+ */
+function errorClass(
+  code: string | undefined,
+  message: string
+): typeof DatabaseError {
+  switch (code) {
+    case "23505":
+      return UniqueConstraintError;
+    case "23503":
+      return ForeignKeyError;
+    case "23502":
+      return NotNullError;
+    case "23514":
+      return CheckError;
+    case "40001":
+    case "40P01":
+      return SerializationError;
+    case "57014":
+    case "55P03":
+      return QueryTimeoutError;
+  }
+
+  if (
+    (code && (code.startsWith("08") || CONNECTION_CODES.has(code))) ||
+    /connection terminated/i.test(message)
+  ) {
+    return ConnectionError;
+  }
+  return DatabaseError;
+}
+
+/**
+ * Convert a driver error into the matching DatabaseError subclass
+ *
+ * Errors that already are DatabaseErrors are returned unchanged, so
+ * layered executors don't wrap twice.
+ *
+ * @param error - The caught error
+ * @param prefix - Message prefix, e.g. "Database query failed"
+ * @param sql - The failing SQL
+ * @param params - The failing query's params
+ */
+export function toDatabaseError(
+  error: unknown,
+  prefix: string,
+  sql?: string,
+  params?: unknown[]
+): DatabaseError {
+  if (error instanceof DatabaseError) {
+    return error;
+  }
+
+  const message =
+    error instanceof Error ? error.message : "Unknown database error";
+  const fields: PgErrorFields =
+    typeof error === "object" && error !== null ? error : {};
+  const ErrorClass = errorClass(fields.code, message);
+
+  return new ErrorClass(
+    `${prefix}: ${redaction.params ? redactMessage(message) : message}`,
+    fields,
+    sql,
+    params,
+    error
+  );
+}
+
+/**
+ * Redact the values in a pg message: everything after the first ": "
+ * ('invalid input syntax for type integer: "abc"') and quoted values
+ * ('value "99999999999" is out of range for type integer'). Identifiers
+ * such as constraint and column names are kept.
+ */
+function redactMessage(message: string): string {
+  return message
+    .replace(/: [\s\S]*$/, `: ${REDACTED}`)
+    .replace(/\bvalue "(?:[^"]|"")*"/g, `value ${REDACTED}`);
+}
+
+/**
+ * Affected columns: pg's column field, or the key list in the detail
+ * ("Key (post_id, category_id)=(1, 2) already exists.")
+ */
+function errorColumns(fields: PgErrorFields): string[] {
+  if (fields.column) {
+    return [fields.column];
+  }
+
+  const match = fields.detail?.match(/^Key \((.+?)\)=/);
+  if (!match) {
+    return [];
+  }
+  return match[1].split(",").map((column) => column.trim().replace(/"/g, ""));
+}
+
+/**
+ * Convert snake_case to camelCase
+ */
+function snakeToCamel(str: string): string {
+  return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+}
@@ -6,30 +6,138 @@
  * All queries are parameterized to prevent SQL injection.
  */
 
-import { Pool, PoolClient, QueryResult, QueryResultRow } from "pg";
-import { dbConfig } from "../config/db.config";
+import {
+  CustomTypesConfig,
+  Pool,
+  PoolClient,
+  PoolConfig,
+  QueryResult,
+  QueryResultRow,
+  types,
+} from "pg";
+import { dbConfig, dbReplicaUrls } from "../config/db.config";
+import { ConnectionError, toDatabaseError } from "./DatabaseError";
+import { instrumentQuery, QueryHooks } from "./QueryEvents";
+import { getActiveTransaction } from "../transactions/TransactionContext";
+
+/**
+ * Type OIDs of numeric[] and text[] (pg's TypeId lists scalar types only)
+ */
+type ArrayTypeId = Parameters<typeof types.getTypeParser>[0];
+const NUMERIC_ARRAY_OID = 1231 as ArrayTypeId;
+const TEXT_ARRAY_OID = 1009 as ArrayTypeId;
+
+/**
+ * Type parsers of the pools
+ * pg parses numeric[] elements as floats; they are kept as exact strings,
+ * like numeric values, so their codecs (see ColumnTypes) lose no precision
+ */
+const poolTypes: CustomTypesConfig = {
+  getTypeParser: (oid, format) =>
+    types.getTypeParser(
+      oid === NUMERIC_ARRAY_OID ? TEXT_ARRAY_OID : oid,
+      format
+    ),
+};
+
+/**
+ * Anything that can run a parameterized query
+ *
+ * Implemented by DbAdapter (pooled connections) and TransactionClient
+ * (the transaction's dedicated client), so tables and query builders can
+ * run on either.
+ */
+export interface Queryable {
+  query<T extends QueryResultRow = QueryResultRow>(
+    sql: string,
+    params?: unknown[]
+  ): Promise<{ rows: T[]; rowCount: number | null }>;
+
+  /**
+   * Run a read-only query; executors without it run reads via query()
+   */
+  readQuery?<T extends QueryResultRow = QueryResultRow>(
+    sql: string,
+    params?: unknown[]
+  ): Promise<{ rows: T[]; rowCount: number | null }>;
+}
+
+/**
+ * Connection counts of a pool
+ */
+export interface PoolStats {
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+}
+
+/**
+ * How readQuery() picks a replica
+ * - round-robin: rotate through the replicas
+ * - least-busy: fewest checked-out plus waiting clients (see PoolStats)
+ */
+export type ReplicaSelection = "round-robin" | "least-busy";
+
+/**
+ * Read replica configuration
+ */
+export interface ReplicationOptions {
+  /** Replica pool configurations or connection strings */
+  replicas: Array<PoolConfig | string>;
+  /** Replica selection strategy (default round-robin) */
+  selection?: ReplicaSelection;
+  /**
+   * After a write on this adapter, reads go to the primary for this many
+   * milliseconds so they see the write despite replication lag
+   * (default 1000, 0 disables)
+   */
+  stickyAfterWriteMs?: number;
+}
+
+/**
+ * Statements that never write, so don't start the sticky window
+ */
+const READ_STATEMENT = /^\s*(SELECT|SHOW|EXPLAIN)\b/i;
 
 /**
  * Database Adapter Class
  *
  * Provides a secure, pooled connection interface to PostgreSQL.
- * Implements the singleton pattern for connection management.
+ * getInstance() returns the shared adapter built from dbConfig; further
+ * adapters (another database, an isolated pool per test) are created
+ * with `new DbAdapter(config)` or registered by name with
+ * registerConnection().
  */
-export class DbAdapter {
+export class DbAdapter implements Queryable {
   private static instance: DbAdapter | null = null;
   private pool: Pool;
+  private replicaPools: Pool[];
+  private replicaSelection: ReplicaSelection;
+  private stickyAfterWriteMs: number;
+  private nextReplica: number = 0;
+  private lastWriteAt: number = 0;
+  private queryHooks: QueryHooks[] = [];
   private isConnected: boolean = false;
 
   /**
-   * Private constructor - use getInstance() to get the adapter
+   * @param config - Pool configuration or a connection string for the
+   *   primary; defaults to dbConfig (read from the environment)
+   * @param replication - Read replicas used by readQuery()
+   *
+   * @example
+   * const adapter = new DbAdapter(process.env.DATABASE_URL!, {
+   *   replicas: [process.env.REPLICA_1_URL!, process.env.REPLICA_2_URL!],
+   *   selection: "least-busy",
+   * });
    */
-  private constructor() {
-    this.pool = new Pool(dbConfig);
-
-    // Handle pool errors
-    this.pool.on("error", (err: Error) => {
-      console.error("Unexpected error on idle client:", err);
-    });
+  constructor(
+    config: PoolConfig | string = dbConfig,
+    replication?: ReplicationOptions
+  ) {
+    this.pool = createPool(config);
+    this.replicaPools = (replication?.replicas ?? []).map(createPool);
+    this.replicaSelection = replication?.selection ?? "round-robin";
+    this.stickyAfterWriteMs = replication?.stickyAfterWriteMs ?? 1000;
 
     // Handle pool connection events
     this.pool.on("connect", () => {
@@ -42,16 +150,42 @@ export class DbAdapter {
    */
   public static getInstance(): DbAdapter {
     if (!DbAdapter.instance) {
-      DbAdapter.instance = new DbAdapter();
+      DbAdapter.instance = new DbAdapter(
+        dbConfig,
+        dbReplicaUrls?.length
+          ? {
+              replicas: dbReplicaUrls.map((connectionString) => ({
+                ...dbConfig,
+                connectionString,
+              })),
+            }
+          : undefined
+      );
     }
     return DbAdapter.instance;
   }
 
+  /**
+   * Close the shared adapter and every registered connection
+   *
+   * Call this when shutting down an application using named connections
+   */
+  public static async closeAll(): Promise<void> {
+    const adapters = [...connections.values()];
+    if (DbAdapter.instance) {
+      adapters.push(DbAdapter.instance);
+    }
+    await Promise.all(adapters.map((adapter) => adapter.close()));
+  }
+
   /**
    * Execute a parameterized SQL query
    *
    * This is the primary method for database interaction.
    * All parameters are properly escaped to prevent SQL injection.
+   * Failures are thrown as DatabaseError subclasses (see DatabaseError.ts).
+   * Inside an ambient transaction on this adapter the query runs on the
+   * transaction's client.
    *
    * @param sql - The SQL query string with $1, $2, etc. placeholders
    * @param params - Array of parameter values to substitute
@@ -67,14 +201,117 @@ export class DbAdapter {
     sql: string,
     params: unknown[] = []
   ): Promise<QueryResult<T>> {
-    try {
-      const result = await this.pool.query<T>(sql, params);
-      return result;
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown database error";
-      throw new Error(`Database query failed: ${errorMessage}`);
+    const active = getActiveTransaction();
+    if (active && active.adapter === this) {
+      return (await active.query<T>(sql, params)) as QueryResult<T>;
+    }
+
+    return instrumentQuery(
+      this.queryHooks,
+      sql,
+      params,
+      "primary",
+      async () => {
+        try {
+          const result = await this.pool.query<T>(sql, params);
+          if (!READ_STATEMENT.test(sql)) {
+            this.recordWrite();
+          }
+          return result;
+        } catch (error) {
+          throw toDatabaseError(error, "Database query failed", sql, params);
+        }
+      }
+    );
+  }
+
+  /**
+   * Execute a read-only query, on a replica when replicas are configured
+   *
+   * Used by QueryBuilder reads and relationship loads. Falls back to the
+   * primary inside an ambient transaction and during the sticky window
+   * after a write.
+   */
+  public async readQuery<T extends QueryResultRow = QueryResultRow>(
+    sql: string,
+    params: unknown[] = []
+  ): Promise<QueryResult<T>> {
+    const active = getActiveTransaction();
+    if (
+      this.replicaPools.length === 0 ||
+      (active && active.adapter === this) ||
+      Date.now() - this.lastWriteAt < this.stickyAfterWriteMs
+    ) {
+      return this.query<T>(sql, params);
+    }
+
+    const replica = this.selectReplica();
+    return instrumentQuery(
+      this.queryHooks,
+      sql,
+      params,
+      "replica",
+      async () => {
+        try {
+          return await replica.query<T>(sql, params);
+        } catch (error) {
+          throw toDatabaseError(error, "Database query failed", sql, params);
+        }
+      }
+    );
+  }
+
+  /**
+   * Register query hooks (see QueryEvents.ts)
+   *
+   * Hooks see the queries of this adapter, its replicas and its
+   * transactions.
+   *
+   * @returns A function removing the hooks again
+   *
+   * @example
+   * const stop = adapter.addQueryHooks({
+   *   afterQuery: ({ sql, durationMs, origin }) => { ... },
+   * });
+   */
+  public addQueryHooks(hooks: QueryHooks): () => void {
+    this.queryHooks = [...this.queryHooks, hooks];
+    return () => {
+      this.queryHooks = this.queryHooks.filter((h) => h !== hooks);
+    };
+  }
+
+  /**
+   * The registered query hooks
+   */
+  public getQueryHooks(): readonly QueryHooks[] {
+    return this.queryHooks;
+  }
+
+  /**
+   * Start the sticky-after-write window
+   *
+   * Called for writes on the primary and after a transaction commits
+   */
+  public recordWrite(): void {
+    this.lastWriteAt = Date.now();
+  }
+
+  /**
+   * Pick the replica for the next read
+   */
+  private selectReplica(): Pool {
+    if (this.replicaSelection === "least-busy") {
+      const busy = (pool: Pool) =>
+        pool.totalCount - pool.idleCount + pool.waitingCount;
+      return this.replicaPools.reduce((best, pool) =>
+        busy(pool) < busy(best) ? pool : best
+      );
     }
+
+    const pool = this.replicaPools[this.nextReplica];
+    this.nextReplica = (this.nextReplica + 1) % this.replicaPools.length;
+    return pool;
   }
 
   /**
@@ -104,7 +341,13 @@ export class DbAdapter {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown connection error";
-      throw new Error(`Failed to get database client: ${errorMessage}`);
+      throw new ConnectionError(
+        `Failed to get database client: ${errorMessage}`,
+        typeof error === "object" && error !== null ? error : {},
+        undefined,
+        undefined,
+        error
+      );
     }
   }
 
@@ -134,16 +377,15 @@ export class DbAdapter {
   /**
    * Get pool statistics
    */
-  public getPoolStats(): {
-    totalCount: number;
-    idleCount: number;
-    waitingCount: number;
-  } {
-    return {
-      totalCount: this.pool.totalCount,
-      idleCount: this.pool.idleCount,
-      waitingCount: this.pool.waitingCount,
-    };
+  public getPoolStats(): PoolStats {
+    return poolStats(this.pool);
+  }
+
+  /**
+   * Get statistics of each replica pool
+   */
+  public getReplicaStats(): PoolStats[] {
+    return this.replicaPools.map(poolStats);
   }
 
   /**
@@ -152,15 +394,92 @@ export class DbAdapter {
    * Call this when shutting down the application
    */
   public async close(): Promise<void> {
-    await this.pool.end();
+    await Promise.all([this.pool, ...this.replicaPools].map((p) => p.end()));
     this.isConnected = false;
-    DbAdapter.instance = null;
+
+    if (DbAdapter.instance === this) {
+      DbAdapter.instance = null;
+    }
+    for (const [name, adapter] of connections) {
+      if (adapter === this) {
+        connections.delete(name);
+      }
+    }
+  }
+}
+
+/**
+ * Create a pool from a configuration or connection string
+ * (a `types` option replaces the numeric[] parser)
+ */
+function createPool(config: PoolConfig | string): Pool {
+  const pool = new Pool({
+    types: poolTypes,
+    ...(typeof config === "string" ? { connectionString: config } : config),
+  });
+
+  // Handle pool errors
+  pool.on("error", (err: Error) => {
+    console.error("Unexpected error on idle client:", err);
+  });
+
+  return pool;
+}
+
+/**
+ * Read the connection counts of a pool
+ */
+function poolStats(pool: Pool): PoolStats {
+  return {
+    totalCount: pool.totalCount,
+    idleCount: pool.idleCount,
+    waitingCount: pool.waitingCount,
+  };
+}
+
+/**
+ * Named connections registered with registerConnection()
+ */
+const connections = new Map<string, DbAdapter>();
+
+/**
+ * Register a named connection
+ *
+ * @param name - Name used with getDbAdapter(name)
+ * @param config - An adapter, pool configuration or connection string
+ * @returns The registered adapter
+ *
+ * @example
+ * registerConnection("analytics", process.env.ANALYTICS_DATABASE_URL!);
+ *
+ * const analytics = createClient("analytics");
+ */
+export function registerConnection(
+  name: string,
+  config: DbAdapter | PoolConfig | string
+): DbAdapter {
+  if (connections.has(name)) {
+    throw new Error(`Connection "${name}" is already registered`);
   }
+
+  const adapter = config instanceof DbAdapter ? config : new DbAdapter(config);
+  connections.set(name, adapter);
+  return adapter;
 }
 
 /**
  * Export a convenience function to get the adapter instance
+ *
+ * @param name - A registered connection; the shared adapter when omitted
  */
-export function getDbAdapter(): DbAdapter {
-  return DbAdapter.getInstance();
+export function getDbAdapter(name?: string): DbAdapter {
+  if (name === undefined) {
+    return DbAdapter.getInstance();
+  }
+
+  const adapter = connections.get(name);
+  if (!adapter) {
+    throw new Error(`Unknown connection "${name}"`);
+  }
+  return adapter;
 }
@@ -0,0 +1,257 @@
+/**
+ * IblalORM Query Events
+ *
+ * Hooks observing every query run by a DbAdapter or its transactions:
+ * beforeQuery, afterQuery (with duration and row count) and onError.
+ * Tables, query builders and relationship loads tag their queries with
+ * the originating model and operation.
+ *
+ * @example
+ * const adapter = getDbAdapter();
+ * adapter.addQueryHooks(createQueryLogger());
+ * adapter.addQueryHooks(createSlowQueryReporter({ thresholdMs: 200 }));
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { DatabaseError } from "./DatabaseError";
+
+/**
+ * ORM operation a query was issued for
+ */
+export type QueryOperation =
+  | "select"
+  | "count"
+  | "aggregate"
+  | "insert"
+  | "update"
+  | "delete"
+  | "loadRelation"
+  | "loadAggregate";
+
+/**
+ * Where a query came from (absent for raw queries)
+ */
+export interface QueryOrigin {
+  table: string;
+  /** Model name, when known */
+  model?: string;
+  operation: QueryOperation;
+}
+
+/**
+ * Connection a query ran on
+ */
+export type QueryTarget = "primary" | "replica" | "transaction";
+
+/**
+ * Passed to beforeQuery
+ */
+export interface QueryEvent {
+  sql: string;
+  params: unknown[];
+  target: QueryTarget;
+  origin?: QueryOrigin;
+}
+
+/**
+ * Passed to afterQuery
+ */
+export interface QueryResultEvent extends QueryEvent {
+  durationMs: number;
+  rowCount: number | null;
+}
+
+/**
+ * Passed to onError
+ */
+export interface QueryErrorEvent extends QueryEvent {
+  durationMs: number;
+  error: DatabaseError;
+}
+
+/**
+ * Query hooks; a throwing hook is logged and does not fail the query
+ */
+export interface QueryHooks {
+  beforeQuery?: (event: QueryEvent) => void;
+  afterQuery?: (event: QueryResultEvent) => void;
+  onError?: (event: QueryErrorEvent) => void;
+}
+
+const originStorage = new AsyncLocalStorage<QueryOrigin>();
+
+/**
+ * Run a callback with the origin attached to the queries it issues
+ */
+export function withQueryOrigin<T>(origin: QueryOrigin, run: () => T): T {
+  return originStorage.run(origin, run);
+}
+
+/**
+ * Run a query, emitting its events to the given hooks
+ *
+ * @param run - Executes the query; must throw DatabaseErrors
+ */
+export async function instrumentQuery<R extends { rowCount: number | null }>(
+  hooks: readonly QueryHooks[],
+  sql: string,
+  params: unknown[],
+  target: QueryTarget,
+  run: () => Promise<R>
+): Promise<R> {
+  if (hooks.length === 0) {
+    return run();
+  }
+
+  const event: QueryEvent = {
+    sql,
+    params,
+    target,
+    origin: originStorage.getStore(),
+  };
+  emit(hooks, "beforeQuery", event);
+
+  const start = performance.now();
+  try {
+    const result = await run();
+    emit(hooks, "afterQuery", {
+      ...event,
+      durationMs: performance.now() - start,
+      rowCount: result.rowCount,
+    });
+    return result;
+  } catch (error) {
+    emit(hooks, "onError", {
+      ...event,
+      durationMs: performance.now() - start,
+      error: error as DatabaseError,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Call one kind of hook on every registered hook set
+ */
+function emit<K extends keyof QueryHooks>(
+  hooks: readonly QueryHooks[],
+  kind: K,
+  event: Parameters<NonNullable<QueryHooks[K]>>[0]
+): void {
+  for (const hook of hooks) {
+    try {
+      (hook[kind] as ((event: unknown) => void) | undefined)?.(event);
+    } catch (error) {
+      console.error(`${kind} hook failed:`, error);
+    }
+  }
+}
+
+// ============================================================================
+// Built-in hooks
+// ============================================================================
+
+/**
+ * Options for createQueryLogger()
+ */
+export interface QueryLoggerOptions {
+  /** Output function (default console.log, console.error for failures) */
+  log?: (line: string) => void;
+  /** Include the params (default true) */
+  params?: boolean;
+}
+
+/**
+ * Log every query on one line with its origin, duration and row count
+ *
+ * @example
+ * // [iblal] User.select 2.1ms 3 rows  SELECT * FROM "users" WHERE "id" = $1  [1]
+ */
+export function createQueryLogger(
+  options: QueryLoggerOptions = {}
+): QueryHooks {
+  const showParams = options.params ?? true;
+
+  const describe = (event: QueryEvent): string => {
+    const sql = event.sql.replace(/\s+/g, " ").trim();
+    const params =
+      showParams && event.params.length > 0
+        ? `  ${JSON.stringify(event.params, (_, value) =>
+            typeof value === "bigint" ? value.toString() : value
+          )}`
+        : "";
+    return `${sql}${params}`;
+  };
+
+  return {
+    afterQuery: (event) => {
+      const rows = event.rowCount === null ? "" : ` ${event.rowCount} rows`;
+      (options.log ?? console.log)(
+        `[iblal] ${originLabel(event)} ${event.durationMs.toFixed(
+          1
+        )}ms${rows}  ${describe(event)}`
+      );
+    },
+    onError: (event) => {
+      (options.log ?? console.error)(
+        `[iblal] ${originLabel(event)} failed after ${event.durationMs.toFixed(
+          1
+        )}ms: ${event.error.message}  ${describe(event)}`
+      );
+    },
+  };
+}
+
+/**
+ * Options for createSlowQueryReporter()
+ */
+export interface SlowQueryReporterOptions {
+  /** Queries taking at least this long are reported */
+  thresholdMs: number;
+  /** Receives slow queries (default: console.warn) */
+  report?: (event: QueryResultEvent) => void;
+}
+
+/**
+ * Report queries slower than a threshold
+ *
+ * @example
+ * adapter.addQueryHooks(
+ *   createSlowQueryReporter({
+ *     thresholdMs: 500,
+ *     report: (event) => metrics.timing("db.slow_query", event.durationMs),
+ *   })
+ * );
+ */
+export function createSlowQueryReporter(
+  options: SlowQueryReporterOptions
+): QueryHooks {
+  const report =
+    options.report ??
+    ((event: QueryResultEvent) =>
+      console.warn(
+        `[iblal] Slow query (${event.durationMs.toFixed(1)}ms >= ${
+          options.thresholdMs
+        }ms) ${originLabel(event)}: ${event.sql.replace(/\s+/g, " ").trim()}`
+      ));
+
+  return {
+    afterQuery: (event) => {
+      if (event.durationMs >= options.thresholdMs) {
+        report(event);
+      }
+    },
+  };
+}
+
+/**
+ * "Model.operation" (or "table.operation"), "raw" without an origin
+ */
+function originLabel(event: QueryEvent): string {
+  if (!event.origin) {
+    return "raw";
+  }
+  return `${event.origin.model ?? event.origin.table}.${
+    event.origin.operation
+  }`;
+}
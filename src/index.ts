@@ -6,11 +6,46 @@
  */
 
 // Database Adapter
-export { DbAdapter, getDbAdapter } from "./db/DbAdapter";
+export { DbAdapter, getDbAdapter, registerConnection } from "./db/DbAdapter";
+export {
+  DatabaseError,
+  UniqueConstraintError,
+  ForeignKeyError,
+  NotNullError,
+  CheckError,
+  SerializationError,
+  ConnectionError,
+  QueryTimeoutError,
+  configureErrorRedaction,
+  ErrorRedactionOptions,
+} from "./db/DatabaseError";
+export {
+  createQueryLogger,
+  createSlowQueryReporter,
+  QueryHooks,
+  QueryEvent,
+  QueryResultEvent,
+  QueryErrorEvent,
+  QueryOrigin,
+  QueryOperation,
+} from "./db/QueryEvents";
 
 // Query Builder
-export { QueryBuilder } from "./query/QueryBuilder";
-export { Table, InsertData, UpdateData } from "./query/Table";
+export { QueryBuilder, GroupedQueryBuilder } from "./query/QueryBuilder";
+export {
+  Table,
+  InsertData,
+  UpdateData,
+  InsertOptions,
+  OnConflict,
+  ConflictTarget,
+  MergeColumns,
+  PrimaryKeyValue,
+  RawExpression,
+  raw,
+} from "./query/Table";
+export { Codec, registerCodec, getCodec } from "./query/Codecs";
+export { Json } from "./query/JsonPath";
 
 // Configuration
 export {
@@ -18,4 +53,6 @@ export {
   sqlToTsTypeMap,
   getTsType,
   introspectionConfig,
+  CodecConfig,
+  CodecTypeConfig,
 } from "./config/db.config";
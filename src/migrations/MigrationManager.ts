@@ -7,7 +7,7 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { getDbAdapter } from "../db/DbAdapter";
+import { DbAdapter, getDbAdapter } from "../db/DbAdapter";
 
 /**
  * Migration record stored in the database
@@ -35,16 +35,25 @@ interface MigrationFile {
 export class MigrationManager {
   private migrationsDir: string;
   private tableName: string = "_iblal_migrations";
+  private adapter: DbAdapter | null;
 
-  constructor(migrationsDir: string = "./migrations") {
+  /**
+   * @param migrationsDir - Directory holding the migration SQL files
+   * @param adapter - Database to migrate; defaults to the shared DbAdapter
+   */
+  constructor(
+    migrationsDir: string = "./migrations",
+    adapter?: DbAdapter | null
+  ) {
     this.migrationsDir = migrationsDir;
+    this.adapter = adapter ?? null;
   }
 
   /**
    * Ensure the migrations tracking table exists
    */
   async ensureMigrationsTable(): Promise<void> {
-    const adapter = getDbAdapter();
+    const adapter = this.adapter ?? getDbAdapter();
 
     const sql = `
       CREATE TABLE IF NOT EXISTS ${this.tableName} (
@@ -61,7 +70,7 @@ export class MigrationManager {
    * Get list of already executed migrations
    */
   async getExecutedMigrations(): Promise<string[]> {
-    const adapter = getDbAdapter();
+    const adapter = this.adapter ?? getDbAdapter();
 
     const result = await adapter.query<MigrationRecord>(
       `SELECT name FROM ${this.tableName} ORDER BY id ASC`,
@@ -105,7 +114,7 @@ export class MigrationManager {
    * Run a single migration
    */
   async runMigration(migration: MigrationFile): Promise<void> {
-    const adapter = getDbAdapter();
+    const adapter = this.adapter ?? getDbAdapter();
     const sql = fs.readFileSync(migration.path, "utf-8");
 
     // Execute migration in a transaction
@@ -0,0 +1,81 @@
+/**
+ * IblalORM Codecs
+ *
+ * Convert column values between what pg returns and what the generated
+ * models declare. pg returns bigint and numeric values as strings to keep
+ * their precision; introspectionConfig.codecs picks the codec of each SQL
+ * type or column, introspect types the columns accordingly and the
+ * generated columnTypes metadata names the codec each column uses.
+ *
+ * @example
+ * // numeric columns configured with a "decimal" codec
+ * registerCodec("decimal", {
+ *   parse: (value) => new Decimal(String(value)),
+ *   serialize: (value) => (value as Decimal).toString(),
+ * });
+ */
+
+/**
+ * Converts the values of a column
+ */
+export interface Codec<T = unknown> {
+  /**
+   * Convert a value read from the database: as parsed by pg, or the
+   * text form for composite attributes and array elements
+   */
+  parse(value: unknown): T;
+  /** Convert a value written to the database */
+  serialize(value: T): unknown;
+}
+
+const identity = (value: unknown): unknown => value;
+
+/**
+ * Built-in codecs, also naming the value types of ColumnTypes
+ */
+const codecRegistry: Record<string, Codec> = {
+  string: { parse: (value) => String(value), serialize: identity },
+  number: { parse: (value) => Number(value), serialize: identity },
+  bigint: {
+    parse: (value) => BigInt(value as string | number | bigint),
+    serialize: (value) => String(value),
+  },
+  boolean: {
+    parse: (value) =>
+      typeof value === "boolean" ? value : value === "t" || value === "true",
+    serialize: identity,
+  },
+  Date: {
+    parse: (value) =>
+      value instanceof Date
+        ? value
+        : new Date(
+            String(value)
+              .replace(" ", "T")
+              .replace(/([+-]\d\d)$/, "$1:00")
+          ),
+    serialize: (value) =>
+      value instanceof Date ? value.toISOString() : String(value),
+  },
+  // Parses the text form only: pg returns json/jsonb columns parsed
+  json: {
+    parse: (value) => (typeof value === "string" ? JSON.parse(value) : value),
+    serialize: (value) => JSON.stringify(value),
+  },
+};
+
+/**
+ * Register a codec, or replace a built-in one
+ *
+ * @param name - Codec name used by introspectionConfig.codecs
+ */
+export function registerCodec<T>(name: string, codec: Codec<T>): void {
+  codecRegistry[name] = codec as Codec;
+}
+
+/**
+ * Get a registered codec
+ */
+export function getCodec(name: string): Codec | undefined {
+  return codecRegistry[name];
+}
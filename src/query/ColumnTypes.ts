@@ -0,0 +1,317 @@
+/**
+ * IblalORM Column Types
+ *
+ * pg parses built-in types and arrays of them, but returns composite
+ * types and arrays of enums or composites in their text form, e.g.
+ * '(Main St,42)' or '{draft,published}', and bigint/numeric values as
+ * strings. The introspected columnTypes metadata names the value type
+ * of those columns so rows are decoded when read and values encoded
+ * when written.
+ */
+
+import { getCodec } from "./Codecs";
+
+/**
+ * Value type of a column: a codec name ("string", "number", "bigint",
+ * "boolean", "Date", "json" or a registered codec) or a composite type
+ * name, followed by one "[]" per array dimension (e.g. "address[]")
+ */
+export type ColumnValueType = string;
+
+/**
+ * Column type metadata generated by introspect
+ */
+export interface ColumnTypeMeta {
+  /** Attribute value types of each composite type, in attribute order */
+  composites: Record<string, Record<string, ColumnValueType>>;
+  /** Value types of the decoded columns of each table */
+  columns: Record<string, Record<string, ColumnValueType>>;
+}
+
+/**
+ * Global registry
+ * Populated by the generated client from the introspected columnTypes
+ */
+let columnTypeRegistry: ColumnTypeMeta = { composites: {}, columns: {} };
+
+/**
+ * Register column type metadata
+ *
+ * @param meta - Composite types and decoded columns by table name
+ */
+export function registerColumnTypes(meta: ColumnTypeMeta): void {
+  columnTypeRegistry = {
+    composites: { ...columnTypeRegistry.composites, ...meta.composites },
+    columns: { ...columnTypeRegistry.columns, ...meta.columns },
+  };
+}
+
+/**
+ * Decode the registered columns of a snake_case row
+ * Rows of tables without registered columns are returned unchanged
+ */
+export function decodeRow(
+  tableName: string,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const types = columnTypeRegistry.columns[tableName];
+  if (!types) return row;
+
+  const decoded = { ...row };
+  for (const [column, type] of Object.entries(types)) {
+    if (row[column] !== null && row[column] !== undefined) {
+      decoded[column] = decodeValue(row[column], type);
+    }
+  }
+  return decoded;
+}
+
+/**
+ * Decode a single value of a column, e.g. a key read from a related row
+ *
+ * @param column - snake_case column name
+ */
+export function decodeColumnValue(
+  tableName: string,
+  column: string,
+  value: unknown
+): unknown {
+  const type = columnTypeRegistry.columns[tableName]?.[column];
+  return type ? decodeValue(value, type) : value;
+}
+
+/**
+ * Registered value type of a column, if any
+ *
+ * @param column - snake_case column name
+ */
+export function columnValueType(
+  tableName: string,
+  column: string
+): ColumnValueType | undefined {
+  return columnTypeRegistry.columns[tableName]?.[column];
+}
+
+/**
+ * Encode a value written to a column
+ * Composite values and arrays become their text form and codec columns
+ * are serialized; values of other columns are returned unchanged
+ *
+ * @param column - snake_case column name
+ */
+export function encodeColumnValue(
+  tableName: string,
+  column: string,
+  value: unknown
+): unknown {
+  const type = columnTypeRegistry.columns[tableName]?.[column];
+  if (!type || value === null || value === undefined) return value;
+
+  if (type.endsWith("[]") || columnTypeRegistry.composites[type]) {
+    return encodeText(value, type);
+  }
+  const codec = getCodec(type);
+  return codec ? codec.serialize(value) : value;
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+type ArrayItem = string | null | ArrayItem[];
+
+/**
+ * Decode a value of the given type, as parsed by pg or in text form
+ *
+ * @param text - Whether the value is in text form (an array element or
+ *   composite field parsed from a literal) rather than parsed by pg
+ */
+function decodeValue(
+  value: unknown,
+  type: ColumnValueType,
+  text: boolean = false
+): unknown {
+  if (value === null || value === undefined) return value;
+
+  if (type.endsWith("[]")) {
+    const elementType = type.slice(0, -2);
+    const itemsText = typeof value === "string";
+    const items = itemsText ? parseArrayLiteral(value) : (value as []);
+    return items.map((item: unknown) =>
+      // Arrays may have more dimensions than declared
+      decodeValue(
+        item,
+        Array.isArray(item) && !elementType.endsWith("[]") ? type : elementType,
+        itemsText
+      )
+    );
+  }
+
+  const attributes = columnTypeRegistry.composites[type];
+  if (attributes) {
+    return typeof value === "string"
+      ? decodeComposite(value, attributes)
+      : value;
+  }
+
+  // pg already parsed json/jsonb values, which may themselves be strings
+  if (type === "json" && !text) return value;
+
+  const codec = getCodec(type);
+  return codec ? codec.parse(value) : value;
+}
+
+/**
+ * Decode the text form of a composite value
+ */
+function decodeComposite(
+  text: string,
+  attributes: Record<string, ColumnValueType>
+): Record<string, unknown> {
+  const fields = parseCompositeLiteral(text);
+  const decoded: Record<string, unknown> = {};
+  Object.entries(attributes).forEach(([attribute, attributeType], i) => {
+    decoded[snakeToCamel(attribute)] = decodeValue(
+      fields[i] ?? null,
+      attributeType,
+      true
+    );
+  });
+  return decoded;
+}
+
+/**
+ * Parse an array literal such as '{a,"b c",NULL}' or '{{1,2},{3,4}}'
+ */
+export function parseArrayLiteral(text: string): ArrayItem[] {
+  // Skip explicit bounds, e.g. '[0:1]={a,b}'
+  let pos = text.startsWith("[") ? text.indexOf("=") + 1 : 0;
+
+  const parseLevel = (): ArrayItem[] => {
+    const items: ArrayItem[] = [];
+    pos++; // "{"
+
+    while (pos < text.length && text[pos] !== "}") {
+      if (text[pos] === "{") {
+        items.push(parseLevel());
+      } else if (text[pos] === '"') {
+        let value = "";
+        pos++;
+        while (pos < text.length && text[pos] !== '"') {
+          if (text[pos] === "\\") pos++;
+          value += text[pos++];
+        }
+        pos++; // closing quote
+        items.push(value);
+      } else {
+        const start = pos;
+        while (pos < text.length && text[pos] !== "," && text[pos] !== "}") {
+          pos++;
+        }
+        const value = text.slice(start, pos);
+        items.push(value === "NULL" ? null : value);
+      }
+
+      if (text[pos] === ",") pos++;
+    }
+
+    pos++; // "}"
+    return items;
+  };
+
+  return parseLevel();
+}
+
+/**
+ * Parse a composite literal such as '(Main St,"4, 2",)'
+ * Empty unquoted fields are NULL
+ */
+export function parseCompositeLiteral(text: string): Array<string | null> {
+  const fields: Array<string | null> = [];
+  let current = "";
+  let quoted = false;
+  let inQuotes = false;
+
+  for (let i = 1; i < text.length - 1; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === "\\") {
+        current += text[++i];
+      } else if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(quoted || current !== "" ? current : null);
+      current = "";
+      quoted = false;
+    } else if (char === "\\") {
+      current += text[++i];
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(quoted || current !== "" ? current : null);
+  return fields;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encode a value as the text form of the given type
+ */
+function encodeText(value: unknown, type: ColumnValueType): string {
+  if (type.endsWith("[]")) {
+    const elementType = type.slice(0, -2);
+    const items = (value as unknown[]).map((item) =>
+      item === null || item === undefined
+        ? "NULL"
+        : Array.isArray(item)
+        ? encodeText(item, elementType.endsWith("[]") ? elementType : type)
+        : quote(encodeText(item, elementType))
+    );
+    return `{${items.join(",")}}`;
+  }
+
+  const attributes = columnTypeRegistry.composites[type];
+  if (attributes) {
+    const record = value as Record<string, unknown>;
+    const fields = Object.entries(attributes).map(
+      ([attribute, attributeType]) => {
+        const field = record[snakeToCamel(attribute)];
+        return field === null || field === undefined
+          ? ""
+          : quote(encodeText(field, attributeType));
+      }
+    );
+    return `(${fields.join(",")})`;
+  }
+
+  const codec = getCodec(type);
+  return String(codec ? codec.serialize(value) : value);
+}
+
+/**
+ * Quote an array element or composite field
+ */
+function quote(text: string): string {
+  return `"${text.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Convert snake_case to camelCase
+ */
+function snakeToCamel(str: string): string {
+  return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+}
@@ -0,0 +1,196 @@
+/**
+ * IblalORM JSON Paths
+ *
+ * Paths into json/jsonb columns for QueryBuilder.whereJson() and
+ * select(). A path is a dotted list of keys and array indexes, e.g.
+ * "seo.title" or "tags.0". introspect types json/jsonb columns Json<T>;
+ * paths into columns with a declared type (see introspect's typed JSON
+ * columns) are checked against it, untyped columns accept any path.
+ */
+
+// ============================================================================
+// Type Utilities
+// ============================================================================
+
+declare const jsonBrand: unique symbol;
+
+/**
+ * Type of a json/jsonb column in the generated models
+ * The optional brand marks the column as JSON for whereJson() and
+ * friends; plain values of type T remain assignable.
+ */
+export type Json<T = Record<string, unknown>> = T & {
+  readonly [jsonBrand]?: T;
+};
+
+/**
+ * Columns of a model typed Json<T>, i.e. json/jsonb columns
+ */
+export type JsonColumn<TModel> = {
+  [K in keyof TModel]-?: typeof jsonBrand extends keyof NonNullable<TModel[K]>
+    ? K
+    : never;
+}[keyof TModel] &
+  string;
+
+/**
+ * Maximum depth of the paths offered by JsonPath
+ * (JSON types may be recursive)
+ */
+type JsonDepth = [never, 0, 1, 2, 3, 4];
+
+/**
+ * Paths into a JSON value of type T
+ * e.g. JsonPath<{ seo: { title: string }; tags: string[] }> =
+ *   "seo" | "seo.title" | "tags" | `tags.${number}`
+ */
+export type JsonPath<T, D extends number = 5> = [D] extends [never]
+  ? string
+  : JsonPathOf<NonNullable<T>, D>;
+
+/**
+ * Paths of each member of a (non-null) JSON type
+ */
+type JsonPathOf<T, D extends number> = unknown extends T
+  ? string
+  : T extends readonly (infer E)[]
+  ? `${number}` | `${number}.${JsonPath<E, JsonDepth[D]>}`
+  : T extends object
+  ? string extends keyof T
+    ? string
+    : {
+        [K in keyof T & string]-?: K | `${K}.${JsonPath<T[K], JsonDepth[D]>}`;
+      }[keyof T & string]
+  : never;
+
+/**
+ * Value at a path of a JSON value of type T
+ * (unknown when T doesn't declare the path's keys)
+ */
+export type JsonPathValue<
+  T,
+  P extends string
+> = P extends `${infer H}.${infer R}`
+  ? JsonPathValue<JsonChild<NonNullable<T>, H>, R>
+  : JsonChild<NonNullable<T>, P>;
+
+/**
+ * Value of a key or array index of a JSON value
+ */
+type JsonChild<T, K extends string> = unknown extends T
+  ? unknown
+  : T extends readonly (infer E)[]
+  ? E
+  : K extends keyof T
+  ? T[K]
+  : string extends keyof T
+  ? T[string & keyof T]
+  : unknown;
+
+/**
+ * Values accepted by whereJsonContains(): a JSON value of type T with
+ * every object property optional
+ */
+export type JsonContainment<T> = unknown extends T
+  ? unknown
+  : T extends readonly (infer E)[]
+  ? JsonContainment<E>[]
+  : T extends object
+  ? { [K in keyof T]?: JsonContainment<T[K]> }
+  : T;
+
+/**
+ * Keys accepted by whereJsonHasKey(): the object's keys, or the
+ * string elements of an array
+ */
+export type JsonKey<T> = unknown extends T
+  ? string
+  : T extends readonly (infer E)[]
+  ? E extends string
+    ? E
+    : string
+  : string extends keyof T
+  ? string
+  : keyof T & string;
+
+/**
+ * JSON paths that can be passed to select(): column name and path,
+ * e.g. "metadata.seo.title"
+ */
+export type JsonSelectPath<TModel> = {
+  [K in JsonColumn<TModel>]: `${K}.${JsonPath<TModel[K]>}`;
+}[JsonColumn<TModel>];
+
+/**
+ * camelCase a path segment ("og_image" becomes "ogImage")
+ */
+type CamelSegment<S extends string> = S extends `${infer H}_${infer T}`
+  ? `${H}${CamelSegment<Capitalize<T>>}`
+  : S;
+
+/**
+ * Capitalized, camelCased path segments ("seo.og_image" becomes "SeoOgImage")
+ */
+type JsonPathAlias<P extends string> = P extends `${infer H}.${infer R}`
+  ? `${Capitalize<CamelSegment<H>>}${JsonPathAlias<R>}`
+  : Capitalize<CamelSegment<P>>;
+
+/**
+ * Result properties added by JSON paths selected with select()
+ * Each value is named after its column and path ("metadata.seo.title"
+ * becomes "metadataSeoTitle") and is null when the path is missing
+ */
+export type JsonSelection<TModel, P extends string> = {
+  [S in P as S extends `${infer C}.${infer R}`
+    ? `${C}${JsonPathAlias<R>}`
+    : never]: S extends `${infer C}.${infer R}`
+    ? C extends keyof TModel
+      ? Exclude<JsonPathValue<TModel[C], R>, undefined> | null
+      : never
+    : never;
+};
+
+// ============================================================================
+// SQL Helpers
+// ============================================================================
+
+/**
+ * Split a dotted JSON path into its keys
+ */
+export function parseJsonPath(path: string): string[] {
+  const segments = path.split(".");
+  if (segments.some((segment) => segment === "")) {
+    throw new Error(`Invalid JSON path "${path}"`);
+  }
+  return segments;
+}
+
+/**
+ * Render path keys as a quoted text[] literal for the #> and #>> operators,
+ * e.g. '{"seo","title"}'
+ */
+export function jsonPathLiteral(segments: string[]): string {
+  const keys = segments.map(
+    (segment) => `"${segment.replace(/[\\"]/g, "\\$&").replace(/'/g, "''")}"`
+  );
+  return `'{${keys.join(",")}}'`;
+}
+
+/**
+ * Result property name of a JSON path selected with select()
+ * Mirrors JsonSelection: "metadata" + ["seo", "og_image"] becomes
+ * "metadataSeoOgImage"
+ */
+export function jsonSelectAlias(column: string, segments: string[]): string {
+  return (
+    column +
+    segments
+      .map((segment) =>
+        segment
+          .split("_")
+          .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+          .join("")
+      )
+      .join("")
+  );
+}
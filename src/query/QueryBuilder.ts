@@ -9,11 +9,43 @@
  */
 
 import { QueryResult } from "pg";
-import { getDbAdapter } from "../db/DbAdapter";
+import { getDbAdapter, Queryable } from "../db/DbAdapter";
+import {
+  QueryOperation,
+  QueryOrigin,
+  withQueryOrigin,
+} from "../db/QueryEvents";
+import {
+  columnValueType,
+  decodeColumnValue,
+  decodeRow,
+  encodeColumnValue,
+} from "./ColumnTypes";
+import {
+  JsonColumn,
+  JsonPath,
+  JsonPathValue,
+  JsonContainment,
+  JsonKey,
+  JsonSelectPath,
+  JsonSelection,
+  parseJsonPath,
+  jsonPathLiteral,
+  jsonSelectAlias,
+} from "./JsonPath";
 import {
   RelationLoader,
+  RelationMeta,
+  RelationConstraint,
+  RelationAggregate,
   ModelRelationMeta,
-  WithLoadedRelations,
+  RelationKeys,
+  RelatedModel,
+  IncludePath,
+  IncludedPath,
+  PathModel,
+  LoadedRelations,
+  getRelationMeta,
 } from "./RelationLoader";
 
 // ============================================================================
@@ -37,20 +69,100 @@ export type ComparisonOperator =
   | "IS NULL"
   | "IS NOT NULL";
 
+/**
+ * jsonb operators: containment (@>, <@) and key existence (?, ?|, ?&)
+ */
+export type JsonOperator = "@>" | "<@" | "?" | "?|" | "?&";
+
 /**
  * Sort direction for ORDER BY
  */
 export type SortDirection = "ASC" | "DESC";
 
+/**
+ * Boolean connector used to join a condition to the ones before it
+ */
+export type LogicalOperator = "AND" | "OR";
+
 /**
  * Where condition structure
  */
 interface WhereCondition {
+  type: "condition";
+  boolean: LogicalOperator;
   column: string;
   operator: ComparisonOperator;
   value: unknown;
 }
 
+/**
+ * Parenthesised group of conditions
+ */
+interface WhereGroup {
+  type: "group";
+  boolean: LogicalOperator;
+  conditions: WhereNode[];
+}
+
+/**
+ * Correlated EXISTS subquery on a relationship (whereHas/whereDoesntHave)
+ */
+interface WhereExists {
+  type: "exists";
+  boolean: LogicalOperator;
+  negated: boolean;
+  meta: RelationMeta;
+  alias: string;
+  buildConditions: (params: unknown[]) => string;
+}
+
+/**
+ * Condition on the value at a path of a jsonb column
+ * (an empty path compares the whole column)
+ */
+interface WhereJson {
+  type: "json";
+  boolean: LogicalOperator;
+  column: string;
+  path: string[];
+  operator: ComparisonOperator | JsonOperator;
+  value: unknown;
+}
+
+/**
+ * Node in the WHERE condition tree
+ */
+type WhereNode = WhereCondition | WhereGroup | WhereExists | WhereJson;
+
+/**
+ * Callback used to build a nested condition group
+ * Receives a fresh builder for the same model and returns it with conditions added
+ */
+export type WhereGroupCallback<
+  TModel extends object,
+  TJoins extends JoinMap = {}
+> = (
+  query: QueryBuilder<TModel, keyof TModel, never, TJoins>
+) => QueryBuilder<TModel, keyof TModel, never, TJoins>;
+
+/**
+ * Callback used to constrain the related records of whereHas()
+ * Receives a builder for the related model and returns it with conditions added
+ */
+export type WhereHasCallback<TRelated extends object> = (
+  query: QueryBuilder<TRelated>
+) => QueryBuilder<TRelated>;
+
+/**
+ * Callback used to constrain the records loaded by include()
+ * Receives a builder for the related model; where, orderBy, select,
+ * limit and offset are applied to the relationship query
+ */
+export type IncludeCallback<
+  TRelated extends object,
+  TSelectKeys extends keyof TRelated = keyof TRelated
+> = (query: QueryBuilder<TRelated>) => QueryBuilder<TRelated, TSelectKeys>;
+
 /**
  * Order by structure
  */
@@ -59,6 +171,180 @@ interface OrderByClause {
   direction: SortDirection;
 }
 
+/**
+ * Type-level record of a joined relationship
+ */
+export interface JoinInfo {
+  model: object;
+  columns: PropertyKey;
+  nullable: boolean;
+}
+
+/**
+ * Joined relationships keyed by relation name
+ */
+export type JoinMap = Record<string, JoinInfo>;
+
+/**
+ * Convert a union to an intersection
+ */
+type UnionToIntersection<U> = (
+  U extends unknown ? (arg: U) => void : never
+) extends (arg: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Columns of joined relations keyed by dotted reference
+ * (e.g. { "author.displayName": string | null })
+ */
+type JoinedColumnMap<TJoins extends JoinMap> = UnionToIntersection<
+  {
+    [R in keyof TJoins & string]: {
+      [C in keyof TJoins[R]["model"] &
+        string as `${R}.${C}`]: TJoins[R]["model"][C];
+    };
+  }[keyof TJoins & string]
+>;
+
+/**
+ * Columns usable in WHERE/ORDER BY: model keys plus dotted
+ * references into joined relations (e.g. "author.displayName")
+ */
+export type QueryColumn<TModel, TJoins extends JoinMap> = keyof (TModel &
+  JoinedColumnMap<TJoins>) &
+  string;
+
+/**
+ * Value type of a (possibly dotted) query column
+ */
+export type ColumnValue<
+  TModel,
+  TJoins extends JoinMap,
+  K extends QueryColumn<TModel, TJoins>
+> = (TModel & JoinedColumnMap<TJoins>)[K];
+
+/**
+ * Result properties added by joined columns
+ * Each column is prefixed with the relation name ("author" + "displayName"
+ * becomes "authorDisplayName") and is nullable for LEFT JOINs
+ */
+export type JoinedColumns<TJoins extends JoinMap> = UnionToIntersection<
+  {
+    [R in keyof TJoins & string]: {
+      [C in TJoins[R]["columns"] &
+        keyof TJoins[R]["model"] &
+        string as `${R}${Capitalize<C>}`]: TJoins[R]["nullable"] extends true
+        ? TJoins[R]["model"][C] | null
+        : TJoins[R]["model"][C];
+    };
+  }[keyof TJoins & string]
+>;
+
+/**
+ * Row type returned by QueryBuilder.exec()
+ */
+export type QueryResultRow<
+  TModel,
+  TSelectKeys extends keyof TModel,
+  TIncluded extends string,
+  TJoins extends JoinMap,
+  TAggregates extends object = {}
+> = Pick<TModel, TSelectKeys> &
+  LoadedRelations<TModel, TIncluded> &
+  JoinedColumns<TJoins> &
+  TAggregates;
+
+/**
+ * Join type
+ */
+type JoinType = "INNER" | "LEFT";
+
+/**
+ * Join structure
+ */
+interface JoinClause {
+  type: JoinType;
+  relation: string;
+  meta: RelationMeta;
+  columns: string[];
+}
+
+/**
+ * SQL aggregate functions supported by the query builder
+ */
+export type AggregateFunction = "COUNT" | "SUM" | "AVG" | "MIN" | "MAX";
+
+/**
+ * Result type of SUM over a column
+ * Number columns sum to numbers; bigint/numeric columns keep their codec's
+ * type. Nullable columns can aggregate to NULL when every value in the
+ * group is NULL
+ */
+export type NumericAggregate<T> = null extends T
+  ? SumValue<T> | null
+  : SumValue<T>;
+
+/**
+ * Result type of AVG over a column
+ * Averages of bigint/numeric columns are pg's exact decimal text
+ */
+export type AverageAggregate<T> = null extends T
+  ? AverageValue<T> | null
+  : AverageValue<T>;
+
+type SumValue<T> = NonNullable<T> extends number ? number : NonNullable<T>;
+
+type AverageValue<T> = NonNullable<T> extends number ? number : string;
+
+/**
+ * Aggregate functions available to withAggregate()
+ */
+export type RelationAggregateFunction = "sum" | "avg" | "min" | "max";
+
+/**
+ * Result type of a relationship aggregate
+ * Parents without related records get null
+ */
+type RelationAggregateValue<F extends RelationAggregateFunction, T> =
+  | (F extends "min" | "max"
+      ? NonNullable<T>
+      : F extends "sum"
+      ? SumValue<T>
+      : AverageValue<T>)
+  | null;
+
+/**
+ * Aggregate selection in a grouped query
+ */
+interface AggregateSelection {
+  fn: AggregateFunction;
+  column: string | null;
+  alias: string;
+}
+
+/**
+ * SQL fragments a grouped query inherits from its source QueryBuilder
+ */
+interface GroupSource {
+  tableName: string;
+  fromClause: string;
+  buildWhereClause: (params: unknown[]) => string;
+  qualifyColumn: (column: string) => string;
+  executor: Queryable | null;
+  origin: QueryOrigin;
+}
+
+/**
+ * HAVING condition structure (compares an aggregate expression)
+ */
+interface HavingCondition {
+  boolean: LogicalOperator;
+  alias: string;
+  operator: ComparisonOperator;
+  value: unknown;
+}
+
 /**
  * Convert camelCase to snake_case for SQL
  */
@@ -66,6 +352,160 @@ function camelToSnake(str: string): string {
   return str.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
 }
 
+/**
+ * Quote an aggregate alias, doubling any double quotes in it
+ */
+function quoteAlias(alias: string): string {
+  return `"${alias.replace(/"/g, '""')}"`;
+}
+
+/**
+ * SQL alias of a joined column ("author.first_name")
+ * The dot keeps it from colliding with base columns and JSON selections
+ */
+function joinedColumnAlias(relation: string, column: string): string {
+  return `${relation}.${camelToSnake(column)}`;
+}
+
+/**
+ * Convert a numeric aggregate result to a number
+ * pg returns COUNT/SUM (bigint) and AVG (numeric) as strings
+ */
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === "number" ? value : Number(value);
+}
+
+/**
+ * Decode an aggregate result read from pg
+ *
+ * MIN and MAX use the column's codec. COUNT and aggregates of number
+ * columns become numbers; SUM of a codec column (bigint, numeric) goes
+ * through its codec and AVG keeps pg's exact decimal text.
+ *
+ * @param column - camelCase column, or null for COUNT(*)
+ */
+function decodeAggregate(
+  tableName: string,
+  fn: AggregateFunction,
+  column: string | null,
+  value: unknown
+): unknown {
+  if (value === null || value === undefined) return null;
+  if (fn === "COUNT" || column === null) return toNumber(value);
+
+  const snakeColumn = camelToSnake(column);
+  if (fn === "MIN" || fn === "MAX") {
+    return decodeColumnValue(tableName, snakeColumn, value);
+  }
+
+  const type = columnValueType(tableName, snakeColumn);
+  if (type === undefined || type === "number") return toNumber(value);
+  return fn === "AVG"
+    ? String(value)
+    : decodeColumnValue(tableName, snakeColumn, value);
+}
+
+/**
+ * Build an aggregate expression such as COUNT(*) or SUM("view_count")
+ * @param column - Quoted column expression, or null for COUNT(*)
+ */
+function buildAggregateExpression(
+  fn: AggregateFunction,
+  column: string | null
+): string {
+  return `${fn}(${column ?? "*"})`;
+}
+
+/**
+ * Render a comparison of an SQL expression against a value
+ * Pushes the value(s) onto params and references them by placeholder
+ */
+function buildComparison(
+  expression: string,
+  operator: ComparisonOperator,
+  value: unknown,
+  params: unknown[]
+): string {
+  if (operator === "IS NULL" || operator === "IS NOT NULL") {
+    return `${expression} ${operator}`;
+  }
+
+  if (operator === "IN" || operator === "NOT IN") {
+    const placeholders = (value as unknown[]).map((v) => {
+      params.push(v);
+      return `$${params.length}`;
+    });
+    return `${expression} ${operator} (${placeholders.join(", ")})`;
+  }
+
+  params.push(value);
+  return `${expression} ${operator} $${params.length}`;
+}
+
+/**
+ * Render a condition on a jsonb expression
+ * Text operators (LIKE, ILIKE, IS NULL) compare the path's text value
+ * (#>>); the others compare jsonb values, so numbers compare as numbers
+ * and JSON null matches null
+ */
+function buildJsonComparison(
+  column: string,
+  path: string[],
+  operator: ComparisonOperator | JsonOperator,
+  value: unknown,
+  params: unknown[]
+): string {
+  if (operator === "?" || operator === "?|" || operator === "?&") {
+    params.push(value);
+    return `${column} ${operator} $${params.length}${
+      operator === "?" ? "" : "::text[]"
+    }`;
+  }
+
+  if (
+    operator === "LIKE" ||
+    operator === "ILIKE" ||
+    operator === "IS NULL" ||
+    operator === "IS NOT NULL"
+  ) {
+    const expression =
+      path.length > 0 ? `${column} #>> ${jsonPathLiteral(path)}` : column;
+    return buildComparison(expression, operator, value, params);
+  }
+
+  const expression =
+    path.length > 0 ? `${column} #> ${jsonPathLiteral(path)}` : column;
+  const values =
+    operator === "IN" || operator === "NOT IN" ? (value as unknown[]) : [value];
+  const placeholders = values.map((v) => {
+    params.push(JSON.stringify(v));
+    return `$${params.length}::jsonb`;
+  });
+
+  return operator === "IN" || operator === "NOT IN"
+    ? `${expression} ${operator} (${placeholders.join(", ")})`
+    : `${expression} ${operator} ${placeholders[0]}`;
+}
+
+/**
+ * Transform a database row from snake_case to camelCase
+ */
+function snakeToCamelRow(
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const transformed: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    const camelKey = key.replace(/_([a-z])/g, (_, letter) =>
+      letter.toUpperCase()
+    );
+    transformed[camelKey] = value;
+  }
+
+  return transformed;
+}
+
 // ============================================================================
 // QueryBuilder Class
 // ============================================================================
@@ -78,37 +518,51 @@ function camelToSnake(str: string): string {
  *
  * @template TModel - The full model interface
  * @template TSelectKeys - Union of selected column keys (defaults to keyof TModel)
- * @template TIncluded - Union of included relationship keys
+ * @template TIncluded - Union of included relationship paths (see IncludedPath)
+ * @template TJoins - Relationships joined with join()/leftJoin()
+ * @template TAggregates - Relationship aggregates added with withCount()/withAggregate()
  */
 export class QueryBuilder<
   TModel extends object,
   TSelectKeys extends keyof TModel = keyof TModel,
-  TIncluded extends keyof TModel = never
+  TIncluded extends string = never,
+  TJoins extends JoinMap = {},
+  TAggregates extends object = {}
 > {
   private tableName: string;
   private modelName: string = "";
-  private selectedColumns: Array<keyof TModel & string> | "*" = "*";
-  private whereConditions: WhereCondition[] = [];
+  private selectedColumns: string[] | "*" = "*";
+  private whereConditions: WhereNode[] = [];
   private orderByClauses: OrderByClause[] = [];
   private limitCount: number | null = null;
   private offsetCount: number | null = null;
   private includedRelations: string[] = [];
+  private includeConstraints: Record<string, RelationConstraint> = {};
+  private relationAggregates: RelationAggregate[] = [];
+  private joins: JoinClause[] = [];
+  private tableAlias: string | null = null;
   private relationMeta: ModelRelationMeta = {};
+  private executor: Queryable | null = null;
+  private readFromPrimary: boolean = false;
 
   /**
    * Create a new QueryBuilder instance
    * @param tableName - The database table name
    * @param modelName - The model name (for relationship loading)
    * @param relationMeta - Relationship metadata for this model
+   * @param executor - Runs the queries (e.g. a transaction); defaults to
+   *   the shared DbAdapter
    */
   constructor(
     tableName: string,
     modelName?: string,
-    relationMeta?: ModelRelationMeta
+    relationMeta?: ModelRelationMeta,
+    executor?: Queryable | null
   ) {
     this.tableName = tableName;
     this.modelName = modelName || "";
     this.relationMeta = relationMeta || {};
+    this.executor = executor ?? null;
   }
 
   /**
@@ -129,9 +583,19 @@ export class QueryBuilder<
    *
    * This triggers eager loading of the specified relationship.
    * The return type is transformed to make the relationship required.
+   * Dotted paths load nested relationships level by level, one batched
+   * query per relationship per level.
    *
-   * @template R - The relationship key to include
-   * @param relation - Name of the relationship to load
+   * The optional callback constrains the loaded records with the usual
+   * where/orderBy/select API. limit() and offset() apply per parent
+   * (e.g. the latest 3 posts of every user) for hasMany and manyToMany
+   * relationships. The column linking related rows to their parent is
+   * always selected. When the callback selects columns, the loaded
+   * records are typed with those columns only.
+   *
+   * @template P - The relationship path to include
+   * @param relation - Name of the relationship (or dotted path) to load
+   * @param callback - Constrains the records of the last relationship in the path
    * @returns Query builder with updated return type
    *
    * @example
@@ -141,146 +605,909 @@ export class QueryBuilder<
    *   .include('author')
    *   .exec();
    * // posts[0].author is now required (not undefined)
+   *
+   * @example
+   * // Load users with their posts and each post's categories
+   * const users = await db.user
+   *   .select('*')
+   *   .include('posts.postCategories')
+   *   .exec();
+   * // users[0].posts[0].postCategories is required
+   *
+   * @example
+   * // Load each user's 3 latest published posts
+   * const users = await db.user
+   *   .select('*')
+   *   .include('posts', (q) =>
+   *     q.where('status', 'published').orderBy('publishedAt', 'DESC').limit(3)
+   *   )
+   *   .exec();
    */
-  include<R extends keyof TModel & string>(
-    relation: R
-  ): QueryBuilder<TModel, TSelectKeys, TIncluded | R> {
-    const builder = this.clone<TSelectKeys, TIncluded | R>();
+  include<
+    P extends IncludePath<TModel>,
+    K extends keyof PathModel<TModel, P> = keyof PathModel<TModel, P>
+  >(
+    relation: P,
+    callback?: IncludeCallback<PathModel<TModel, P>, K>
+  ): QueryBuilder<
+    TModel,
+    TSelectKeys,
+    TIncluded | IncludedPath<P, K, PathModel<TModel, P>>,
+    TJoins,
+    TAggregates
+  > {
+    const builder = this.clone<
+      TSelectKeys,
+      TIncluded | IncludedPath<P, K, PathModel<TModel, P>>
+    >();
     builder.includedRelations.push(relation);
+
+    if (callback) {
+      const meta = this.resolveIncludePath(relation);
+      const nested = new QueryBuilder<PathModel<TModel, P>>(
+        meta.targetTable,
+        meta.targetModel,
+        meta.targetModel ? getRelationMeta(meta.targetModel) : undefined
+      );
+      // Qualify columns with the target table (manyToMany joins the junction)
+      nested.tableAlias = meta.targetTable;
+
+      builder.includeConstraints[relation] =
+        callback(nested).toRelationConstraint();
+    }
+
     return builder;
   }
 
-  // ==========================================================================
-  // SELECT - Type Projection
-  // ==========================================================================
-
   /**
-   * Select all columns
-   * Returns builder with all model keys selected
+   * Resolve the metadata of the last relationship in an include path,
+   * following nested levels through the global registry
    */
-  select(columns: "*"): QueryBuilder<TModel, keyof TModel, TIncluded>;
+  private resolveIncludePath(path: string): RelationMeta {
+    let relationMeta: ModelRelationMeta | undefined = this.relationMeta;
+    let meta: RelationMeta | undefined;
+
+    for (const segment of path.split(".")) {
+      meta = relationMeta?.[segment];
+      if (!meta) {
+        throw new Error(
+          `Unknown relationship path "${path}" on ${
+            this.modelName || this.tableName
+          }`
+        );
+      }
+      relationMeta = meta.targetModel
+        ? getRelationMeta(meta.targetModel)
+        : undefined;
+    }
 
-  /**
-   * Select specific columns with type projection
-   * The returned builder's TSelectKeys is narrowed to only the selected columns
-   *
-   * @template K - Union of selected column keys
-   * @param columns - Column names to select (must be valid model keys)
-   */
-  select<K extends keyof TModel & string>(
-    ...columns: K[]
-  ): QueryBuilder<TModel, K, TIncluded>;
+    return meta!;
+  }
 
   /**
-   * Implementation of select overloads
+   * Compile this builder into constraints for a relationship load
    */
-  select<K extends keyof TModel & string>(
-    ...columns: K[] | ["*"]
-  ):
-    | QueryBuilder<TModel, K, TIncluded>
-    | QueryBuilder<TModel, keyof TModel, TIncluded> {
-    // Create new instance to maintain immutability
-    const builder = this.clone<K, TIncluded>();
-
-    if (columns.length === 1 && columns[0] === "*") {
-      builder.selectedColumns = "*";
-    } else {
-      builder.selectedColumns = columns as Array<keyof TModel & string>;
+  private toRelationConstraint(): RelationConstraint {
+    if (this.joins.length > 0 || this.includedRelations.length > 0) {
+      throw new Error(
+        "include() callbacks only support where, orderBy, select, limit and offset"
+      );
+    }
+    if (
+      this.selectedColumns !== "*" &&
+      this.selectedColumns.some((col) => col.includes("."))
+    ) {
+      throw new Error("include() callbacks can't select JSON paths");
     }
 
-    return builder as QueryBuilder<TModel, K, TIncluded>;
+    return {
+      columns:
+        this.selectedColumns === "*"
+          ? "*"
+          : this.selectedColumns.map((col) => camelToSnake(col)),
+      buildConditions: (params) =>
+        this.buildConditions(this.whereConditions, params),
+      orderBy: this.orderByClauses.map(
+        (o) => `${this.qualifyColumn(o.column)} ${o.direction}`
+      ),
+      limit: this.limitCount,
+      offset: this.offsetCount,
+    };
   }
 
   // ==========================================================================
-  // WHERE - Type-Safe Filtering
+  // WITH COUNT / AGGREGATE - Relationship aggregates
   // ==========================================================================
 
   /**
-   * Add a WHERE condition with equality check
+   * Count the related records of each result without loading them
    *
-   * @param column - Column name (must be keyof TModel)
-   * @param value - Value to compare against
+   * Adds a `<relation>Count` property computed with one grouped query
+   * for the whole result set. The optional callback restricts which
+   * related records are counted.
+   *
+   * @param relation - Name of the relationship
+   * @param callback - Adds conditions on the related model
+   *
+   * @example
+   * const users = await db.user
+   *   .select("id", "displayName")
+   *   .withCount("posts")
+   *   .exec();
+   * // users[0]: { id: number; displayName: string; postsCount: number }
    */
-  where<K extends keyof TModel & string>(
-    column: K,
-    value: TModel[K]
-  ): QueryBuilder<TModel, TSelectKeys, TIncluded>;
+  withCount<R extends RelationKeys<TModel>>(
+    relation: R,
+    callback?: WhereHasCallback<RelatedModel<TModel, R>>
+  ): QueryBuilder<
+    TModel,
+    TSelectKeys,
+    TIncluded,
+    TJoins,
+    TAggregates & Record<`${R}Count`, number>
+  > {
+    return this.addRelationAggregate(
+      relation,
+      `${relation}Count`,
+      "COUNT",
+      null,
+      callback
+    );
+  }
 
   /**
-   * Add a WHERE condition with custom operator
+   * Aggregate a column of the related records of each result
    *
-   * @param column - Column name (must be keyof TModel)
-   * @param operator - Comparison operator
-   * @param value - Value to compare against
+   * Adds a `<relation><Fn><Column>` property (e.g. postsSumViewCount),
+   * null for results without related records.
+   *
+   * @param relation - Name of the relationship
+   * @param fn - Aggregate function
+   * @param column - Column of the related model to aggregate
+   * @param callback - Adds conditions on the related model
+   *
+   * @example
+   * const users = await db.user
+   *   .select("*")
+   *   .withAggregate("posts", "sum", "viewCount")
+   *   .exec();
+   * // users[0].postsSumViewCount: number | null
    */
-  where<K extends keyof TModel & string>(
-    column: K,
-    operator: ComparisonOperator,
-    value: TModel[K] | TModel[K][]
-  ): QueryBuilder<TModel, TSelectKeys, TIncluded>;
+  withAggregate<
+    R extends RelationKeys<TModel>,
+    F extends RelationAggregateFunction,
+    C extends keyof RelatedModel<TModel, R> & string
+  >(
+    relation: R,
+    fn: F,
+    column: C,
+    callback?: WhereHasCallback<RelatedModel<TModel, R>>
+  ): QueryBuilder<
+    TModel,
+    TSelectKeys,
+    TIncluded,
+    TJoins,
+    TAggregates &
+      Record<
+        `${R}${Capitalize<F>}${Capitalize<C>}`,
+        RelationAggregateValue<F, RelatedModel<TModel, R>[C]>
+      >
+  > {
+    const alias = `${relation}${fn.charAt(0).toUpperCase()}${fn.slice(
+      1
+    )}${column.charAt(0).toUpperCase()}${column.slice(1)}`;
+
+    return this.addRelationAggregate(
+      relation,
+      alias,
+      fn.toUpperCase() as AggregateFunction,
+      column,
+      callback
+    );
+  }
 
   /**
-   * Implementation of where overloads
+   * Append a relationship aggregate computed after the main query
    */
-  where<K extends keyof TModel & string>(
-    column: K,
-    operatorOrValue: ComparisonOperator | TModel[K],
-    value?: TModel[K] | TModel[K][]
-  ): QueryBuilder<TModel, TSelectKeys, TIncluded> {
-    const builder = this.clone<TSelectKeys, TIncluded>();
+  private addRelationAggregate<
+    TRelated extends object,
+    NewAggregates extends object
+  >(
+    relation: string,
+    alias: string,
+    fn: AggregateFunction,
+    column: string | null,
+    callback?: WhereHasCallback<TRelated>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, NewAggregates> {
+    const meta = this.relationMeta[relation];
+    if (!meta) {
+      throw new Error(
+        `Unknown relationship "${relation}" on ${
+          this.modelName || this.tableName
+        }`
+      );
+    }
 
-    let operator: ComparisonOperator;
-    let actualValue: unknown;
+    if (this.relationAggregates.some((a) => a.alias === alias)) {
+      throw new Error(`Aggregate alias "${alias}" is already selected`);
+    }
 
-    if (value === undefined) {
-      // Two-argument form: where(column, value) - defaults to equality
-      operator = "=";
-      actualValue = operatorOrValue;
-    } else {
-      // Three-argument form: where(column, operator, value)
-      operator = operatorOrValue as ComparisonOperator;
-      actualValue = value;
+    let nested = this.relatedQuery<TRelated>(meta);
+    nested.tableAlias = meta.targetTable;
+    if (callback) {
+      nested = callback(nested);
     }
 
-    builder.whereConditions.push({
-      column,
-      operator,
-      value: actualValue,
+    const builder = this.clone<TSelectKeys, TIncluded, TJoins, NewAggregates>();
+    builder.relationAggregates.push({
+      relation,
+      alias,
+      expression: buildAggregateExpression(
+        fn,
+        column ? `"${meta.targetTable}"."${camelToSnake(column)}"` : null
+      ),
+      buildConditions: callback
+        ? (params) => nested.buildConditions(nested.whereConditions, params)
+        : undefined,
+      decode: (value) => decodeAggregate(meta.targetTable, fn, column, value),
+      emptyValue: fn === "COUNT" ? 0 : null,
     });
-
     return builder;
   }
 
+  // ==========================================================================
+  // JOIN - Filter and sort by related columns
+  // ==========================================================================
+
   /**
-   * Add a WHERE IS NULL condition
+   * INNER JOIN a relationship
+   *
+   * Uses the relationship metadata generated by introspect. The joined
+   * table is aliased with the relation name, so its columns can be used
+   * in where()/orderBy() as "relation.column". Selected columns are added
+   * to the results prefixed with the relation name.
+   *
+   * Joining a hasMany relationship returns one row per related record.
+   *
+   * @param relation - Name of the relationship to join
+   * @param columns - Columns of the related model to add to the results
+   *
+   * @example
+   * const posts = await db.post
+   *   .select("id", "title")
+   *   .join("author", "displayName")
+   *   .where("author.isActive", true)
+   *   .orderBy("author.displayName")
+   *   .exec();
+   * // posts[0]: { id: number; title: string; authorDisplayName: string | null }
    */
-  whereNull<K extends keyof TModel & string>(
-    column: K
-  ): QueryBuilder<TModel, TSelectKeys, TIncluded> {
-    const builder = this.clone<TSelectKeys, TIncluded>();
-    builder.whereConditions.push({
-      column,
-      operator: "IS NULL",
-      value: null,
-    });
-    return builder;
+  join<
+    R extends RelationKeys<TModel>,
+    K extends keyof RelatedModel<TModel, R> & string = never
+  >(
+    relation: R,
+    ...columns: K[]
+  ): QueryBuilder<
+    TModel,
+    TSelectKeys,
+    TIncluded,
+    TJoins &
+      Record<
+        R,
+        { model: RelatedModel<TModel, R>; columns: K; nullable: false }
+      >,
+    TAggregates
+  > {
+    return this.addJoin("INNER", relation, columns);
   }
 
   /**
-   * Add a WHERE IS NOT NULL condition
+   * LEFT JOIN a relationship
+   *
+   * Same as join(), but parents without a related record are kept and
+   * the selected related columns are typed as nullable.
+   *
+   * @param relation - Name of the relationship to join
+   * @param columns - Columns of the related model to add to the results
+   */
+  leftJoin<
+    R extends RelationKeys<TModel>,
+    K extends keyof RelatedModel<TModel, R> & string = never
+  >(
+    relation: R,
+    ...columns: K[]
+  ): QueryBuilder<
+    TModel,
+    TSelectKeys,
+    TIncluded,
+    TJoins &
+      Record<R, { model: RelatedModel<TModel, R>; columns: K; nullable: true }>,
+    TAggregates
+  > {
+    return this.addJoin("LEFT", relation, columns);
+  }
+
+  /**
+   * Append a join on a relationship
+   */
+  private addJoin<NewJoins extends JoinMap>(
+    type: JoinType,
+    relation: string,
+    columns: string[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, NewJoins, TAggregates> {
+    const meta = this.relationMeta[relation];
+    if (!meta) {
+      throw new Error(
+        `Unknown relationship "${relation}" on ${
+          this.modelName || this.tableName
+        }`
+      );
+    }
+
+    if (this.joins.some((j) => j.relation === relation)) {
+      throw new Error(`Relationship "${relation}" is already joined`);
+    }
+
+    const builder = this.clone<TSelectKeys, TIncluded, NewJoins>();
+    builder.joins.push({ type, relation, meta, columns });
+    return builder;
+  }
+
+  // ==========================================================================
+  // SELECT - Type Projection
+  // ==========================================================================
+
+  /**
+   * Select all columns
+   * Returns builder with all model keys selected
+   */
+  select(
+    columns: "*"
+  ): QueryBuilder<TModel, keyof TModel, TIncluded, TJoins, TAggregates>;
+
+  /**
+   * Select specific columns with type projection
+   * The returned builder's TSelectKeys is narrowed to only the selected columns
+   *
+   * Paths into JSON columns ("metadata.seo.title") select the value at
+   * that path, added to the results named after the column and path
+   * (metadataSeoTitle) and null when the path is missing.
+   *
+   * @template K - Union of selected column keys and JSON paths
+   * @param columns - Column names to select (must be valid model keys)
+   *
+   * @example
+   * const posts = await db.post.select("id", "metadata.seo.title").exec();
+   * // posts[0]: { id: number; metadataSeoTitle: string | null }
+   */
+  select<K extends (keyof TModel & string) | JsonSelectPath<TModel>>(
+    ...columns: K[]
+  ): QueryBuilder<
+    TModel,
+    Extract<K, keyof TModel>,
+    TIncluded,
+    TJoins,
+    TAggregates & JsonSelection<TModel, Exclude<K, keyof TModel>>
+  >;
+
+  /**
+   * Implementation of select overloads
+   */
+  select(
+    ...columns: string[]
+  ): QueryBuilder<TModel, keyof TModel, TIncluded, TJoins, TAggregates> {
+    // Create new instance to maintain immutability
+    const builder = this.clone<keyof TModel, TIncluded>();
+
+    if (columns.length === 1 && columns[0] === "*") {
+      builder.selectedColumns = "*";
+    } else {
+      // Reject malformed JSON paths early
+      columns.forEach((col) => {
+        if (col.includes(".")) parseJsonPath(col);
+      });
+      builder.selectedColumns = columns;
+    }
+
+    return builder;
+  }
+
+  // ==========================================================================
+  // WHERE - Type-Safe Filtering
+  // ==========================================================================
+
+  /**
+   * Add a WHERE condition with equality check
+   *
+   * @param column - Column name (must be keyof TModel)
+   * @param value - Value to compare against
+   */
+  where<K extends QueryColumn<TModel, TJoins>>(
+    column: K,
+    value: ColumnValue<TModel, TJoins, K>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates>;
+
+  /**
+   * Add a WHERE condition with custom operator
+   *
+   * @param column - Column name (must be keyof TModel)
+   * @param operator - Comparison operator
+   * @param value - Value to compare against
+   */
+  where<K extends QueryColumn<TModel, TJoins>>(
+    column: K,
+    operator: ComparisonOperator,
+    value: ColumnValue<TModel, TJoins, K> | ColumnValue<TModel, TJoins, K>[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates>;
+
+  /**
+   * Implementation of where overloads
+   */
+  where<K extends QueryColumn<TModel, TJoins>>(
+    column: K,
+    operatorOrValue: ComparisonOperator | ColumnValue<TModel, TJoins, K>,
+    value?: ColumnValue<TModel, TJoins, K> | ColumnValue<TModel, TJoins, K>[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addCondition("AND", column, operatorOrValue, value);
+  }
+
+  /**
+   * Add an OR WHERE condition with equality check
+   *
+   * @param column - Column name (must be keyof TModel)
+   * @param value - Value to compare against
+   *
+   * @example
+   * // WHERE "status" = $1 OR "is_featured" = $2
+   * db.post.select("*").where("status", "draft").orWhere("isFeatured", true);
+   */
+  orWhere<K extends QueryColumn<TModel, TJoins>>(
+    column: K,
+    value: ColumnValue<TModel, TJoins, K>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates>;
+
+  /**
+   * Add an OR WHERE condition with custom operator
+   *
+   * @param column - Column name (must be keyof TModel)
+   * @param operator - Comparison operator
+   * @param value - Value to compare against
+   */
+  orWhere<K extends QueryColumn<TModel, TJoins>>(
+    column: K,
+    operator: ComparisonOperator,
+    value: ColumnValue<TModel, TJoins, K> | ColumnValue<TModel, TJoins, K>[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates>;
+
+  /**
+   * Implementation of orWhere overloads
    */
-  whereNotNull<K extends keyof TModel & string>(
+  orWhere<K extends QueryColumn<TModel, TJoins>>(
+    column: K,
+    operatorOrValue: ComparisonOperator | ColumnValue<TModel, TJoins, K>,
+    value?: ColumnValue<TModel, TJoins, K> | ColumnValue<TModel, TJoins, K>[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addCondition("OR", column, operatorOrValue, value);
+  }
+
+  /**
+   * Add a WHERE IS NULL condition
+   */
+  whereNull<K extends QueryColumn<TModel, TJoins>>(
     column: K
-  ): QueryBuilder<TModel, TSelectKeys, TIncluded> {
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addCondition("AND", column, "IS NULL", null);
+  }
+
+  /**
+   * Add a WHERE IS NOT NULL condition
+   */
+  whereNotNull<K extends QueryColumn<TModel, TJoins>>(
+    column: K
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addCondition("AND", column, "IS NOT NULL", null);
+  }
+
+  /**
+   * Add an OR WHERE IS NULL condition
+   */
+  orWhereNull<K extends QueryColumn<TModel, TJoins>>(
+    column: K
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addCondition("OR", column, "IS NULL", null);
+  }
+
+  /**
+   * Add an OR WHERE IS NOT NULL condition
+   */
+  orWhereNotNull<K extends QueryColumn<TModel, TJoins>>(
+    column: K
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addCondition("OR", column, "IS NOT NULL", null);
+  }
+
+  // ==========================================================================
+  // WHERE JSON - jsonb paths, containment and key existence
+  // ==========================================================================
+
+  /**
+   * Add a WHERE condition on the value at a path of a jsonb column
+   *
+   * The path's keys are checked against the column's generated type.
+   * LIKE, ILIKE and IS (NOT) NULL compare the value's text (#>>; JSON
+   * null counts as NULL); other operators compare jsonb values (#>), so
+   * numbers compare numerically.
+   *
+   * @param column - JSON column name
+   * @param path - Dotted path into the column, e.g. "seo.title" or "tags.0"
+   * @param operator - Comparison operator
+   * @param value - Value to compare against
+   *
+   * @example
+   * // WHERE "metadata" #> '{"seo","score"}' > $1::jsonb
+   * db.post.select("*").whereJson("metadata", "seo.score", ">", 50);
+   */
+  whereJson<K extends JsonColumn<TModel>, P extends JsonPath<TModel[K]>>(
+    column: K,
+    path: P,
+    operator: ComparisonOperator,
+    value: JsonPathValue<TModel[K], P> | JsonPathValue<TModel[K], P>[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addJsonCondition(
+      "AND",
+      column,
+      parseJsonPath(path),
+      operator,
+      value
+    );
+  }
+
+  /**
+   * Add an OR WHERE condition on the value at a path of a jsonb column
+   *
+   * @param column - JSON column name
+   * @param path - Dotted path into the column
+   * @param operator - Comparison operator
+   * @param value - Value to compare against
+   */
+  orWhereJson<K extends JsonColumn<TModel>, P extends JsonPath<TModel[K]>>(
+    column: K,
+    path: P,
+    operator: ComparisonOperator,
+    value: JsonPathValue<TModel[K], P> | JsonPathValue<TModel[K], P>[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addJsonCondition(
+      "OR",
+      column,
+      parseJsonPath(path),
+      operator,
+      value
+    );
+  }
+
+  /**
+   * Keep rows whose jsonb column contains the given value (@>)
+   *
+   * @example
+   * // WHERE "metadata" @> $1::jsonb
+   * db.post.select("*").whereJsonContains("metadata", { seo: { indexed: true } });
+   */
+  whereJsonContains<K extends JsonColumn<TModel>>(
+    column: K,
+    value: JsonContainment<NonNullable<TModel[K]>>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addJsonCondition("AND", column, [], "@>", value);
+  }
+
+  /**
+   * Keep rows whose jsonb column is contained in the given value (<@)
+   */
+  whereJsonContainedBy<K extends JsonColumn<TModel>>(
+    column: K,
+    value: JsonContainment<NonNullable<TModel[K]>>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addJsonCondition("AND", column, [], "<@", value);
+  }
+
+  /**
+   * Keep rows whose jsonb column has the given top-level key, or string
+   * element for arrays (?)
+   */
+  whereJsonHasKey<K extends JsonColumn<TModel>>(
+    column: K,
+    key: JsonKey<NonNullable<TModel[K]>>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addJsonCondition("AND", column, [], "?", key);
+  }
+
+  /**
+   * Keep rows whose jsonb column has any of the given keys (?|)
+   */
+  whereJsonHasAnyKey<K extends JsonColumn<TModel>>(
+    column: K,
+    keys: JsonKey<NonNullable<TModel[K]>>[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addJsonCondition("AND", column, [], "?|", keys);
+  }
+
+  /**
+   * Keep rows whose jsonb column has all of the given keys (?&)
+   */
+  whereJsonHasAllKeys<K extends JsonColumn<TModel>>(
+    column: K,
+    keys: JsonKey<NonNullable<TModel[K]>>[]
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addJsonCondition("AND", column, [], "?&", keys);
+  }
+
+  /**
+   * Append a jsonb condition to the WHERE tree
+   */
+  private addJsonCondition(
+    boolean: LogicalOperator,
+    column: string,
+    path: string[],
+    operator: ComparisonOperator | JsonOperator,
+    value: unknown
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
     const builder = this.clone<TSelectKeys, TIncluded>();
     builder.whereConditions.push({
+      type: "json",
+      boolean,
+      column,
+      path,
+      operator,
+      value,
+    });
+    return builder;
+  }
+
+  /**
+   * Add a parenthesised group of conditions joined with AND
+   *
+   * The callback receives a fresh builder for the same model; every
+   * condition added to it (including orWhere) is wrapped in parentheses.
+   *
+   * @param callback - Builds the nested conditions
+   *
+   * @example
+   * // WHERE "status" = $1 AND ("is_featured" = $2 OR "view_count" > $3)
+   * db.post
+   *   .select("*")
+   *   .where("status", "published")
+   *   .whereGroup((q) => q.where("isFeatured", true).orWhere("viewCount", ">", 100));
+   */
+  whereGroup(
+    callback: WhereGroupCallback<TModel, TJoins>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addGroup("AND", callback);
+  }
+
+  /**
+   * Add a parenthesised group of conditions joined with OR
+   *
+   * @param callback - Builds the nested conditions
+   *
+   * @example
+   * // WHERE "status" = $1 OR ("is_featured" = $2 AND "view_count" > $3)
+   * db.post
+   *   .select("*")
+   *   .where("status", "draft")
+   *   .orWhereGroup((q) => q.where("isFeatured", true).where("viewCount", ">", 100));
+   */
+  orWhereGroup(
+    callback: WhereGroupCallback<TModel, TJoins>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addGroup("OR", callback);
+  }
+
+  /**
+   * Append a single condition to the WHERE tree
+   */
+  private addCondition(
+    boolean: LogicalOperator,
+    column: string,
+    operatorOrValue: unknown,
+    value?: unknown
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    const builder = this.clone<TSelectKeys, TIncluded>();
+
+    let operator: ComparisonOperator;
+    let actualValue: unknown;
+
+    if (value === undefined) {
+      // Two-argument form: where(column, value) - defaults to equality
+      // (IS NULL / IS NOT NULL are passed through with a null value)
+      operator = "=";
+      actualValue = operatorOrValue;
+    } else {
+      // Three-argument form: where(column, operator, value)
+      operator = operatorOrValue as ComparisonOperator;
+      actualValue = value;
+    }
+
+    builder.whereConditions.push({
+      type: "condition",
+      boolean,
       column,
-      operator: "IS NOT NULL",
-      value: null,
+      operator,
+      value: actualValue,
+    });
+
+    return builder;
+  }
+
+  /**
+   * Append a nested condition group to the WHERE tree
+   */
+  private addGroup(
+    boolean: LogicalOperator,
+    callback: WhereGroupCallback<TModel, TJoins>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    const builder = this.clone<TSelectKeys, TIncluded>();
+    const nested = callback(
+      new QueryBuilder<TModel, keyof TModel, never, TJoins>(
+        this.tableName,
+        this.modelName,
+        this.relationMeta
+      )
+    );
+
+    if (nested.whereConditions.length > 0) {
+      builder.whereConditions.push({
+        type: "group",
+        boolean,
+        conditions: nested.whereConditions,
+      });
+    }
+
+    return builder;
+  }
+
+  // ==========================================================================
+  // WHERE HAS - Filter by related records
+  // ==========================================================================
+
+  /**
+   * Keep only rows that have at least one related record
+   *
+   * Compiles to a correlated EXISTS subquery using the relationship
+   * metadata, so it works for belongsTo, hasOne and hasMany. The optional
+   * callback constrains which related records count.
+   *
+   * @param relation - Name of the relationship
+   * @param callback - Adds conditions on the related model
+   *
+   * @example
+   * // Users with at least one published post
+   * const authors = await db.user
+   *   .select("*")
+   *   .whereHas("posts", (q) => q.where("status", "published"))
+   *   .exec();
+   */
+  whereHas<R extends RelationKeys<TModel>>(
+    relation: R,
+    callback?: WhereHasCallback<RelatedModel<TModel, R>>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addExists<RelatedModel<TModel, R>>(
+      "AND",
+      false,
+      relation,
+      callback
+    );
+  }
+
+  /**
+   * Keep only rows that have no related records
+   *
+   * @param relation - Name of the relationship
+   * @param callback - Adds conditions on the related model
+   *
+   * @example
+   * // Posts without any categories
+   * const uncategorized = await db.post
+   *   .select("*")
+   *   .whereDoesntHave("postCategories")
+   *   .exec();
+   */
+  whereDoesntHave<R extends RelationKeys<TModel>>(
+    relation: R,
+    callback?: WhereHasCallback<RelatedModel<TModel, R>>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addExists<RelatedModel<TModel, R>>(
+      "AND",
+      true,
+      relation,
+      callback
+    );
+  }
+
+  /**
+   * OR variant of whereHas()
+   */
+  orWhereHas<R extends RelationKeys<TModel>>(
+    relation: R,
+    callback?: WhereHasCallback<RelatedModel<TModel, R>>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addExists<RelatedModel<TModel, R>>(
+      "OR",
+      false,
+      relation,
+      callback
+    );
+  }
+
+  /**
+   * OR variant of whereDoesntHave()
+   */
+  orWhereDoesntHave<R extends RelationKeys<TModel>>(
+    relation: R,
+    callback?: WhereHasCallback<RelatedModel<TModel, R>>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    return this.addExists<RelatedModel<TModel, R>>(
+      "OR",
+      true,
+      relation,
+      callback
+    );
+  }
+
+  /**
+   * Append a correlated EXISTS subquery to the WHERE tree
+   */
+  private addExists<TRelated extends object>(
+    boolean: LogicalOperator,
+    negated: boolean,
+    relation: string,
+    callback?: WhereHasCallback<TRelated>
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
+    const meta = this.relationMeta[relation];
+    if (!meta) {
+      throw new Error(
+        `Unknown relationship "${relation}" on ${
+          this.modelName || this.tableName
+        }`
+      );
+    }
+
+    // Alias the subquery table so self-referencing relationships
+    // still correlate against the outer row
+    const alias =
+      relation === this.tableReference() ? `${relation}_sub` : relation;
+
+    let nested = this.relatedQuery<TRelated>(meta);
+    nested.tableAlias = alias;
+    if (callback) {
+      nested = callback(nested);
+    }
+
+    const builder = this.clone<TSelectKeys, TIncluded>();
+    builder.whereConditions.push({
+      type: "exists",
+      boolean,
+      negated,
+      meta,
+      alias,
+      buildConditions: (params) =>
+        nested.buildConditions(nested.whereConditions, params),
     });
     return builder;
   }
 
+  /**
+   * Query builder for the target of a relationship, with the target
+   * model's relationships so callbacks can nest whereHas() and friends
+   */
+  private relatedQuery<TRelated extends object>(
+    meta: RelationMeta
+  ): QueryBuilder<TRelated> {
+    return new QueryBuilder<TRelated>(
+      meta.targetTable,
+      meta.targetModel,
+      meta.targetModel ? getRelationMeta(meta.targetModel) : undefined
+    );
+  }
+
   // ==========================================================================
   // ORDER BY - Type-Safe Sorting
   // ==========================================================================
@@ -291,10 +1518,10 @@ export class QueryBuilder<
    * @param column - Column to sort by (must be keyof TModel)
    * @param direction - Sort direction (ASC or DESC)
    */
-  orderBy<K extends keyof TModel & string>(
+  orderBy<K extends QueryColumn<TModel, TJoins>>(
     column: K,
     direction: SortDirection = "ASC"
-  ): QueryBuilder<TModel, TSelectKeys, TIncluded> {
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
     const builder = this.clone<TSelectKeys, TIncluded>();
     builder.orderByClauses.push({ column, direction });
     return builder;
@@ -307,7 +1534,9 @@ export class QueryBuilder<
   /**
    * Limit the number of results
    */
-  limit(count: number): QueryBuilder<TModel, TSelectKeys, TIncluded> {
+  limit(
+    count: number
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
     const builder = this.clone<TSelectKeys, TIncluded>();
     builder.limitCount = count;
     return builder;
@@ -316,7 +1545,9 @@ export class QueryBuilder<
   /**
    * Skip a number of results
    */
-  offset(count: number): QueryBuilder<TModel, TSelectKeys, TIncluded> {
+  offset(
+    count: number
+  ): QueryBuilder<TModel, TSelectKeys, TIncluded, TJoins, TAggregates> {
     const builder = this.clone<TSelectKeys, TIncluded>();
     builder.offsetCount = count;
     return builder;
@@ -328,49 +1559,214 @@ export class QueryBuilder<
 
   /**
    * Build the SELECT clause
+   * Once relationships are joined, base columns are qualified with the
+   * table name and joined columns are aliased as <relation>.<column>
    */
   private buildSelectClause(): string {
-    if (this.selectedColumns === "*") {
+    if (this.joins.length === 0 && this.selectedColumns === "*") {
       return "*";
     }
-    return this.selectedColumns
-      .map((col) => `"${camelToSnake(col)}"`)
-      .join(", ");
+
+    const columns =
+      this.selectedColumns === "*"
+        ? [`"${this.tableName}".*`]
+        : this.selectedColumns.map((col) => this.selectExpression(col));
+
+    if (this.joins.length === 0) {
+      return columns.join(", ");
+    }
+
+    for (const join of this.joins) {
+      for (const col of join.columns) {
+        columns.push(
+          `"${join.relation}"."${camelToSnake(col)}" AS "${joinedColumnAlias(
+            join.relation,
+            col
+          )}"`
+        );
+      }
+    }
+
+    return columns.join(", ");
   }
 
   /**
-   * Build the WHERE clause and collect parameters
+   * Quote a selected column, or the value at a JSON path
+   * ("metadata.seo.title") aliased as its result property
    */
-  private buildWhereClause(params: unknown[]): string {
-    if (this.whereConditions.length === 0) {
-      return "";
+  private selectExpression(column: string): string {
+    const dot = column.indexOf(".");
+    if (dot === -1) {
+      return this.qualifyColumn(column);
     }
 
-    const conditions = this.whereConditions.map((cond) => {
-      const columnName = `"${camelToSnake(cond.column)}"`;
+    const jsonColumn = column.slice(0, dot);
+    const path = parseJsonPath(column.slice(dot + 1));
+    // Keys of untyped columns are arbitrary: double quotes in the alias
+    const alias = jsonSelectAlias(jsonColumn, path).replace(/"/g, '""');
+    return `${this.qualifyColumn(jsonColumn)} #> ${jsonPathLiteral(
+      path
+    )} AS "${alias}"`;
+  }
 
-      if (cond.operator === "IS NULL") {
-        return `${columnName} IS NULL`;
-      }
+  /**
+   * Build the FROM clause including any JOINs
+   */
+  private buildFromClause(): string {
+    const joins = this.joins.map((join) => this.buildJoinClause(join));
+    return [`"${this.tableName}"`, ...joins].join(" ");
+  }
 
-      if (cond.operator === "IS NOT NULL") {
-        return `${columnName} IS NOT NULL`;
-      }
+  /**
+   * Build the JOIN clause for a relationship
+   * manyToMany relationships join the junction table first, aliased
+   * as <relation>_through
+   */
+  private buildJoinClause(join: JoinClause): string {
+    const { type, relation, meta } = join;
+    const through = meta.through;
 
-      if (cond.operator === "IN" || cond.operator === "NOT IN") {
-        const values = cond.value as unknown[];
-        const placeholders = values.map((v) => {
-          params.push(v);
-          return `$${params.length}`;
-        });
-        return `${columnName} ${cond.operator} (${placeholders.join(", ")})`;
-      }
+    if (meta.type === "manyToMany" && through) {
+      const throughAlias = `${relation}_through`;
+      return `${type} JOIN "${through.table}" AS "${throughAlias}" ON "${throughAlias}"."${through.sourceColumn}" = "${this.tableName}"."${meta.sourceColumn}" ${type} JOIN "${meta.targetTable}" AS "${relation}" ON "${relation}"."${meta.targetColumn}" = "${throughAlias}"."${through.targetColumn}"`;
+    }
 
-      params.push(cond.value);
-      return `${columnName} ${cond.operator} $${params.length}`;
-    });
+    return `${type} JOIN "${meta.targetTable}" AS "${relation}" ON "${relation}"."${meta.targetColumn}" = "${this.tableName}"."${meta.sourceColumn}"`;
+  }
+
+  /**
+   * Quote a column reference for SQL
+   * Dotted references ("author.displayName") resolve to the joined alias;
+   * plain columns are qualified with the table name once joins exist
+   */
+  private qualifyColumn(column: string): string {
+    const dot = column.indexOf(".");
+    if (dot !== -1) {
+      return `"${column.slice(0, dot)}"."${camelToSnake(
+        column.slice(dot + 1)
+      )}"`;
+    }
+
+    return this.joins.length > 0 || this.tableAlias !== null
+      ? `"${this.tableReference()}"."${camelToSnake(column)}"`
+      : `"${camelToSnake(column)}"`;
+  }
+
+  /**
+   * Name used to reference this query's table in SQL
+   * (the alias inside a whereHas subquery, otherwise the table name)
+   */
+  private tableReference(): string {
+    return this.tableAlias ?? this.tableName;
+  }
+
+  /**
+   * Render a correlated EXISTS subquery
+   */
+  private buildExists(node: WhereExists, params: unknown[]): string {
+    const { meta, alias } = node;
+    const through = meta.through;
+    let sql: string;
+
+    if (meta.type === "manyToMany" && through) {
+      const throughAlias = `${alias}_through`;
+      sql = `SELECT 1 FROM "${
+        through.table
+      }" AS "${throughAlias}" INNER JOIN "${
+        meta.targetTable
+      }" AS "${alias}" ON "${alias}"."${
+        meta.targetColumn
+      }" = "${throughAlias}"."${
+        through.targetColumn
+      }" WHERE "${throughAlias}"."${
+        through.sourceColumn
+      }" = "${this.tableReference()}"."${meta.sourceColumn}"`;
+    } else {
+      sql = `SELECT 1 FROM "${
+        meta.targetTable
+      }" AS "${alias}" WHERE "${alias}"."${
+        meta.targetColumn
+      }" = "${this.tableReference()}"."${meta.sourceColumn}"`;
+    }
+
+    const conditions = node.buildConditions(params);
+    if (conditions) sql += ` AND (${conditions})`;
+
+    return `${node.negated ? "NOT EXISTS" : "EXISTS"} (${sql})`;
+  }
+
+  /**
+   * Build the WHERE clause and collect parameters
+   */
+  private buildWhereClause(params: unknown[]): string {
+    const conditions = this.buildConditions(this.whereConditions, params);
+    return conditions ? `WHERE ${conditions}` : "";
+  }
+
+  /**
+   * Render a list of condition nodes, joining each with its connector
+   * Groups are rendered recursively and wrapped in parentheses
+   */
+  private buildConditions(nodes: WhereNode[], params: unknown[]): string {
+    return nodes
+      .map((node, index) => {
+        let sql: string;
+        if (node.type === "group") {
+          sql = `(${this.buildConditions(node.conditions, params)})`;
+        } else if (node.type === "exists") {
+          sql = this.buildExists(node, params);
+        } else if (node.type === "json") {
+          sql = buildJsonComparison(
+            this.qualifyColumn(node.column),
+            node.path,
+            node.operator,
+            node.value,
+            params
+          );
+        } else {
+          sql = this.buildCondition(node, params);
+        }
+        return index === 0 ? sql : `${node.boolean} ${sql}`;
+      })
+      .join(" ");
+  }
+
+  /**
+   * Render a single condition and collect its parameters
+   */
+  private buildCondition(cond: WhereCondition, params: unknown[]): string {
+    return buildComparison(
+      this.qualifyColumn(cond.column),
+      cond.operator,
+      this.encodeConditionValue(cond),
+      params
+    );
+  }
+
+  /**
+   * Serialize a condition value with its column's codec
+   * Columns of joined relationships use the codecs of the joined table
+   */
+  private encodeConditionValue(cond: WhereCondition): unknown {
+    let table = this.tableName;
+    let column = cond.column;
+
+    const dot = column.indexOf(".");
+    if (dot !== -1) {
+      const relation = column.slice(0, dot);
+      const join = this.joins.find((j) => j.relation === relation);
+      if (!join) return cond.value;
+      table = join.meta.targetTable;
+      column = column.slice(dot + 1);
+    }
 
-    return `WHERE ${conditions.join(" AND ")}`;
+    const snakeColumn = camelToSnake(column);
+    if (cond.operator === "IN" || cond.operator === "NOT IN") {
+      return (cond.value as unknown[]).map((v) =>
+        encodeColumnValue(table, snakeColumn, v)
+      );
+    }
+    return encodeColumnValue(table, snakeColumn, cond.value);
   }
 
   /**
@@ -382,7 +1778,7 @@ export class QueryBuilder<
     }
 
     const clauses = this.orderByClauses.map(
-      (o) => `"${camelToSnake(o.column)}" ${o.direction}`
+      (o) => `${this.qualifyColumn(o.column)} ${o.direction}`
     );
 
     return `ORDER BY ${clauses.join(", ")}`;
@@ -398,7 +1794,7 @@ export class QueryBuilder<
     const whereClause = this.buildWhereClause(params);
     const orderByClause = this.buildOrderByClause();
 
-    let sql = `SELECT ${selectClause} FROM "${this.tableName}"`;
+    let sql = `SELECT ${selectClause} FROM ${this.buildFromClause()}`;
 
     if (whereClause) sql += ` ${whereClause}`;
     if (orderByClause) sql += ` ${orderByClause}`;
@@ -413,55 +1809,89 @@ export class QueryBuilder<
   // ==========================================================================
 
   /**
-   * Result type that includes loaded relationships
-   * Uses conditional type to make included relations required
+   * Run this query's reads on the primary instead of a read replica
+   *
+   * Use it when the rows must reflect a write that may not have reached
+   * the replicas yet. Applies to relationship loads and aggregates too.
+   *
+   * @example
+   * const post = await db.post.where("id", id).onPrimary().first();
    */
-  private ResultType!: Pick<TModel, TSelectKeys> &
-    Required<Pick<TModel, TIncluded>>;
+  onPrimary(): QueryBuilder<
+    TModel,
+    TSelectKeys,
+    TIncluded,
+    TJoins,
+    TAggregates
+  > {
+    const builder = this.clone<TSelectKeys>();
+    builder.readFromPrimary = true;
+    return builder;
+  }
 
   /**
    * Execute the query and return results
    *
-   * The return type uses Pick<TModel, TSelectKeys> for the base fields
-   * and adds Required<Pick<TModel, TIncluded>> for loaded relationships.
+   * The return type uses Pick<TModel, TSelectKeys> for the base fields,
+   * adds the loaded relationships (see LoadedRelations) and
+   * the prefixed columns of any joined relationships.
    *
    * @returns Promise resolving to array of projected model objects with relations
    */
   async exec(): Promise<
-    Array<Pick<TModel, TSelectKeys> & Required<Pick<TModel, TIncluded>>>
+    Array<QueryResultRow<TModel, TSelectKeys, TIncluded, TJoins, TAggregates>>
   > {
-    const adapter = getDbAdapter();
+    const adapter = this.readExecutor();
     const { sql, params } = this.buildSelectQuery();
 
-    const result = await adapter.query(sql, params);
+    const result = await withQueryOrigin(this.queryOrigin("select"), () =>
+      adapter.readQuery
+        ? adapter.readQuery(sql, params)
+        : adapter.query(sql, params)
+    );
 
     // Transform snake_case results to camelCase
     let rows = result.rows.map((row) => this.transformRow(row)) as TModel[];
 
+    const loader = new RelationLoader<TModel>(
+      this.modelName,
+      this.tableName,
+      this.relationMeta,
+      adapter
+    );
+
     // Load relationships if any were included
     if (
       this.includedRelations.length > 0 &&
       Object.keys(this.relationMeta).length > 0
     ) {
-      const loader = new RelationLoader<TModel>(
-        this.modelName,
-        this.tableName,
-        this.relationMeta
+      rows = await loader.loadRelations(
+        rows,
+        this.includedRelations,
+        this.includeConstraints
       );
-      rows = await loader.loadRelations(rows, this.includedRelations);
     }
 
-    return rows as Array<
-      Pick<TModel, TSelectKeys> & Required<Pick<TModel, TIncluded>>
+    // Compute relationship counts and aggregates
+    if (this.relationAggregates.length > 0) {
+      rows = await loader.loadAggregates(rows, this.relationAggregates);
+    }
+
+    return rows as unknown as Array<
+      QueryResultRow<TModel, TSelectKeys, TIncluded, TJoins, TAggregates>
     >;
   }
 
   /**
    * Execute and return the first result or null
    */
-  async first(): Promise<
-    (Pick<TModel, TSelectKeys> & Required<Pick<TModel, TIncluded>>) | null
-  > {
+  async first(): Promise<QueryResultRow<
+    TModel,
+    TSelectKeys,
+    TIncluded,
+    TJoins,
+    TAggregates
+  > | null> {
     const results = await this.limit(1).exec();
     return results[0] || null;
   }
@@ -470,58 +1900,215 @@ export class QueryBuilder<
    * Execute and return the count of matching rows
    */
   async count(): Promise<number> {
-    const adapter = getDbAdapter();
+    return (await this.aggregate("COUNT", null)) ?? 0;
+  }
+
+  /**
+   * Execute and return the sum of a column over matching rows
+   * Returns null when no rows match
+   */
+  async sum<K extends keyof TModel & string>(
+    column: K
+  ): Promise<SumValue<TModel[K]> | null> {
+    return this.aggregate("SUM", column);
+  }
+
+  /**
+   * Execute and return the average of a column over matching rows
+   * Returns null when no rows match
+   */
+  async avg<K extends keyof TModel & string>(
+    column: K
+  ): Promise<AverageValue<TModel[K]> | null> {
+    return this.aggregate("AVG", column);
+  }
+
+  /**
+   * Execute and return the smallest value of a column over matching rows
+   * Returns null when no rows match
+   */
+  async min<K extends keyof TModel & string>(
+    column: K
+  ): Promise<TModel[K] | null> {
+    return this.aggregate("MIN", column);
+  }
+
+  /**
+   * Execute and return the largest value of a column over matching rows
+   * Returns null when no rows match
+   */
+  async max<K extends keyof TModel & string>(
+    column: K
+  ): Promise<TModel[K] | null> {
+    return this.aggregate("MAX", column);
+  }
+
+  // ==========================================================================
+  // GROUP BY - Grouped aggregations
+  // ==========================================================================
+
+  /**
+   * Group matching rows by one or more columns
+   *
+   * Returns a GroupedQueryBuilder on which aggregates are selected
+   * under an alias. The result type combines the grouped keys with
+   * the aggregate aliases. WHERE conditions added so far are kept.
+   *
+   * @param columns - Columns to group by (must be valid model keys)
+   *
+   * @example
+   * const stats = await db.post
+   *   .where("status", "published")
+   *   .groupBy("authorId")
+   *   .sum("viewCount", "totalViews")
+   *   .count("postCount")
+   *   .having("postCount", ">", 1)
+   *   .orderBy("totalViews", "DESC")
+   *   .exec();
+   * // stats: Array<{ authorId: number } & { totalViews: number } & { postCount: number }>
+   */
+  groupBy<K extends keyof TModel & string>(
+    ...columns: K[]
+  ): GroupedQueryBuilder<TModel, K> {
+    if (columns.length === 0) {
+      throw new Error("groupBy() requires at least one column");
+    }
+
+    return new GroupedQueryBuilder<TModel, K>(columns, {
+      tableName: this.tableName,
+      fromClause: this.buildFromClause(),
+      buildWhereClause: (params) => this.buildWhereClause(params),
+      qualifyColumn: (column) => this.qualifyColumn(column),
+      executor: this.readExecutor(),
+      origin: this.queryOrigin("aggregate"),
+    });
+  }
+
+  /**
+   * Run a single aggregate over matching rows and return the decoded value
+   */
+  private async aggregate<T>(
+    fn: AggregateFunction,
+    column: string | null
+  ): Promise<T | null> {
+    const adapter = this.readExecutor();
     const params: unknown[] = [];
     const whereClause = this.buildWhereClause(params);
+    const alias = fn.toLowerCase();
 
-    let sql = `SELECT COUNT(*) as count FROM "${this.tableName}"`;
+    let sql = `SELECT ${buildAggregateExpression(
+      fn,
+      column === null ? null : this.qualifyColumn(column)
+    )} as ${alias} FROM ${this.buildFromClause()}`;
     if (whereClause) sql += ` ${whereClause}`;
 
-    const result = await adapter.query<{ count: string }>(sql, params);
-    return parseInt(result.rows[0].count, 10);
+    const operation = fn === "COUNT" && column === null ? "count" : "aggregate";
+    const result = await withQueryOrigin(this.queryOrigin(operation), () =>
+      adapter.readQuery
+        ? adapter.readQuery(sql, params)
+        : adapter.query(sql, params)
+    );
+    return decodeAggregate(
+      this.tableName,
+      fn,
+      column,
+      result.rows[0]?.[alias]
+    ) as T | null;
   }
 
   // ==========================================================================
   // HELPERS
   // ==========================================================================
 
+  /**
+   * Origin reported to query hooks
+   */
+  private queryOrigin(operation: QueryOperation): QueryOrigin {
+    return {
+      table: this.tableName,
+      model: this.modelName || undefined,
+      operation,
+    };
+  }
+
+  /**
+   * Executor for reads; after onPrimary() it only exposes query(), so
+   * reads (including relationship loads) skip the replicas
+   */
+  private readExecutor(): Queryable {
+    const adapter = this.executor ?? getDbAdapter();
+    return this.readFromPrimary
+      ? { query: adapter.query.bind(adapter) }
+      : adapter;
+  }
+
   /**
    * Clone the builder for immutable operations
    */
   private clone<
     NewSelectKeys extends keyof TModel,
-    NewIncluded extends keyof TModel = TIncluded
-  >(): QueryBuilder<TModel, NewSelectKeys, NewIncluded> {
-    const builder = new QueryBuilder<TModel, NewSelectKeys, NewIncluded>(
-      this.tableName,
-      this.modelName,
-      this.relationMeta
-    );
+    NewIncluded extends string = TIncluded,
+    NewJoins extends JoinMap = TJoins,
+    NewAggregates extends object = TAggregates
+  >(): QueryBuilder<
+    TModel,
+    NewSelectKeys,
+    NewIncluded,
+    NewJoins,
+    NewAggregates
+  > {
+    const builder = new QueryBuilder<
+      TModel,
+      NewSelectKeys,
+      NewIncluded,
+      NewJoins,
+      NewAggregates
+    >(this.tableName, this.modelName, this.relationMeta, this.executor);
     builder.selectedColumns = this.selectedColumns;
     builder.whereConditions = [...this.whereConditions];
     builder.orderByClauses = [...this.orderByClauses];
     builder.limitCount = this.limitCount;
     builder.offsetCount = this.offsetCount;
     builder.includedRelations = [...this.includedRelations];
+    builder.includeConstraints = { ...this.includeConstraints };
+    builder.relationAggregates = [...this.relationAggregates];
+    builder.joins = [...this.joins];
+    builder.tableAlias = this.tableAlias;
+    builder.readFromPrimary = this.readFromPrimary;
     return builder;
   }
 
   /**
-   * Transform a database row from snake_case to camelCase
+   * Decode a database row and transform it from snake_case to camelCase
+   * Joined columns are decoded with their table's codecs and keyed by
+   * relation + column ("authorFirstName")
    */
   private transformRow(
     row: Record<string, unknown>
   ): Pick<TModel, TSelectKeys> {
-    const transformed: Record<string, unknown> = {};
-
-    for (const [key, value] of Object.entries(row)) {
-      const camelKey = key.replace(/_([a-z])/g, (_, letter) =>
-        letter.toUpperCase()
-      );
-      transformed[camelKey] = value;
+    const base = { ...row };
+    const joined: Record<string, unknown> = {};
+
+    for (const join of this.joins) {
+      for (const col of join.columns) {
+        const alias = joinedColumnAlias(join.relation, col);
+        if (!(alias in base)) continue;
+
+        joined[
+          `${join.relation}${col.charAt(0).toUpperCase()}${col.slice(1)}`
+        ] = decodeColumnValue(
+          join.meta.targetTable,
+          camelToSnake(col),
+          base[alias]
+        );
+        delete base[alias];
+      }
     }
 
-    return transformed as Pick<TModel, TSelectKeys>;
+    return {
+      ...snakeToCamelRow(decodeRow(this.tableName, base)),
+      ...joined,
+    } as Pick<TModel, TSelectKeys>;
   }
 
   /**
@@ -531,3 +2118,374 @@ export class QueryBuilder<
     return this.buildSelectQuery();
   }
 }
+
+// ============================================================================
+// GroupedQueryBuilder Class
+// ============================================================================
+
+/**
+ * Builder for GROUP BY queries with aggregates and HAVING
+ *
+ * Created by QueryBuilder.groupBy(). Each aggregate is selected under an
+ * alias which widens the result type, so exec() returns the grouped keys
+ * plus one typed property per aggregate.
+ *
+ * @template TModel - The full model interface
+ * @template TGroupKeys - Union of grouped column keys
+ * @template TAggregates - Object type of the aggregate aliases selected so far
+ */
+export class GroupedQueryBuilder<
+  TModel extends object,
+  TGroupKeys extends keyof TModel,
+  TAggregates extends object = {}
+> {
+  private groupColumns: Array<keyof TModel & string>;
+  private source: GroupSource;
+  private aggregates: AggregateSelection[] = [];
+  private havingConditions: HavingCondition[] = [];
+  private orderByClauses: OrderByClause[] = [];
+  private limitCount: number | null = null;
+  private offsetCount: number | null = null;
+
+  /**
+   * @param groupColumns - Columns to group by
+   * @param source - FROM/WHERE rendering of the source query
+   */
+  constructor(groupColumns: Array<keyof TModel & string>, source: GroupSource) {
+    this.groupColumns = groupColumns;
+    this.source = source;
+  }
+
+  // ==========================================================================
+  // AGGREGATES
+  // ==========================================================================
+
+  /**
+   * Select COUNT(*) for each group
+   *
+   * @param alias - Property name of the count in the results
+   */
+  count<A extends string>(
+    alias: A
+  ): GroupedQueryBuilder<TModel, TGroupKeys, TAggregates & Record<A, number>> {
+    return this.addAggregate("COUNT", null, alias);
+  }
+
+  /**
+   * Select SUM(column) for each group
+   *
+   * @param column - Column to sum (must be keyof TModel)
+   * @param alias - Property name of the sum in the results
+   */
+  sum<K extends keyof TModel & string, A extends string>(
+    column: K,
+    alias: A
+  ): GroupedQueryBuilder<
+    TModel,
+    TGroupKeys,
+    TAggregates & Record<A, NumericAggregate<TModel[K]>>
+  > {
+    return this.addAggregate("SUM", column, alias);
+  }
+
+  /**
+   * Select AVG(column) for each group
+   *
+   * @param column - Column to average (must be keyof TModel)
+   * @param alias - Property name of the average in the results
+   */
+  avg<K extends keyof TModel & string, A extends string>(
+    column: K,
+    alias: A
+  ): GroupedQueryBuilder<
+    TModel,
+    TGroupKeys,
+    TAggregates & Record<A, AverageAggregate<TModel[K]>>
+  > {
+    return this.addAggregate("AVG", column, alias);
+  }
+
+  /**
+   * Select MIN(column) for each group
+   *
+   * @param column - Column to take the minimum of (must be keyof TModel)
+   * @param alias - Property name of the minimum in the results
+   */
+  min<K extends keyof TModel & string, A extends string>(
+    column: K,
+    alias: A
+  ): GroupedQueryBuilder<
+    TModel,
+    TGroupKeys,
+    TAggregates & Record<A, TModel[K]>
+  > {
+    return this.addAggregate("MIN", column, alias);
+  }
+
+  /**
+   * Select MAX(column) for each group
+   *
+   * @param column - Column to take the maximum of (must be keyof TModel)
+   * @param alias - Property name of the maximum in the results
+   */
+  max<K extends keyof TModel & string, A extends string>(
+    column: K,
+    alias: A
+  ): GroupedQueryBuilder<
+    TModel,
+    TGroupKeys,
+    TAggregates & Record<A, TModel[K]>
+  > {
+    return this.addAggregate("MAX", column, alias);
+  }
+
+  // ==========================================================================
+  // HAVING
+  // ==========================================================================
+
+  /**
+   * Add a HAVING condition on a selected aggregate
+   *
+   * @param alias - Alias of a previously selected aggregate
+   * @param operator - Comparison operator
+   * @param value - Value to compare against
+   */
+  having<A extends keyof TAggregates & string>(
+    alias: A,
+    operator: ComparisonOperator,
+    value: TAggregates[A] | TAggregates[A][]
+  ): GroupedQueryBuilder<TModel, TGroupKeys, TAggregates> {
+    return this.addHaving("AND", alias, operator, value);
+  }
+
+  /**
+   * Add an OR HAVING condition on a selected aggregate
+   *
+   * @param alias - Alias of a previously selected aggregate
+   * @param operator - Comparison operator
+   * @param value - Value to compare against
+   */
+  orHaving<A extends keyof TAggregates & string>(
+    alias: A,
+    operator: ComparisonOperator,
+    value: TAggregates[A] | TAggregates[A][]
+  ): GroupedQueryBuilder<TModel, TGroupKeys, TAggregates> {
+    return this.addHaving("OR", alias, operator, value);
+  }
+
+  // ==========================================================================
+  // ORDER BY, LIMIT & OFFSET
+  // ==========================================================================
+
+  /**
+   * Add ORDER BY clause on a grouped column or aggregate alias
+   *
+   * @param key - Grouped column or aggregate alias
+   * @param direction - Sort direction (ASC or DESC)
+   */
+  orderBy<K extends (TGroupKeys | keyof TAggregates) & string>(
+    key: K,
+    direction: SortDirection = "ASC"
+  ): GroupedQueryBuilder<TModel, TGroupKeys, TAggregates> {
+    const builder = this.clone<TAggregates>();
+    builder.orderByClauses.push({ column: key, direction });
+    return builder;
+  }
+
+  /**
+   * Limit the number of groups returned
+   */
+  limit(count: number): GroupedQueryBuilder<TModel, TGroupKeys, TAggregates> {
+    const builder = this.clone<TAggregates>();
+    builder.limitCount = count;
+    return builder;
+  }
+
+  /**
+   * Skip a number of groups
+   */
+  offset(count: number): GroupedQueryBuilder<TModel, TGroupKeys, TAggregates> {
+    const builder = this.clone<TAggregates>();
+    builder.offsetCount = count;
+    return builder;
+  }
+
+  // ==========================================================================
+  // EXECUTION
+  // ==========================================================================
+
+  /**
+   * Execute the grouped query
+   *
+   * Group keys, MIN and MAX are decoded like the column's values. COUNT
+   * and aggregates of number columns are converted from pg's numeric
+   * strings to numbers; SUM of bigint/numeric columns uses the column's
+   * codec and AVG of them keeps the exact decimal text.
+   *
+   * @returns Promise resolving to one object per group
+   */
+  async exec(): Promise<Array<Pick<TModel, TGroupKeys> & TAggregates>> {
+    const adapter = this.source.executor ?? getDbAdapter();
+    const { sql, params } = this.toSQL();
+
+    const result = await withQueryOrigin(this.source.origin, () =>
+      adapter.readQuery
+        ? adapter.readQuery(sql, params)
+        : adapter.query(sql, params)
+    );
+
+    const { tableName } = this.source;
+    return result.rows.map((row) => {
+      const transformed: Record<string, unknown> = {};
+      for (const column of this.groupColumns) {
+        const snakeColumn = camelToSnake(column);
+        transformed[column] = decodeColumnValue(
+          tableName,
+          snakeColumn,
+          row[snakeColumn]
+        );
+      }
+      for (const { fn, column, alias } of this.aggregates) {
+        transformed[alias] = decodeAggregate(tableName, fn, column, row[alias]);
+      }
+      return transformed as Pick<TModel, TGroupKeys> & TAggregates;
+    });
+  }
+
+  /**
+   * Get the raw SQL query (for debugging)
+   */
+  toSQL(): { sql: string; params: unknown[] } {
+    const params: unknown[] = [];
+
+    const groupColumns = this.groupColumns.map((col) =>
+      this.source.qualifyColumn(col)
+    );
+    const selections = [
+      ...groupColumns,
+      ...this.aggregates.map(
+        (a) => `${this.aggregateExpression(a)} AS ${quoteAlias(a.alias)}`
+      ),
+    ];
+
+    let sql = `SELECT ${selections.join(", ")} FROM ${this.source.fromClause}`;
+
+    const whereClause = this.source.buildWhereClause(params);
+    if (whereClause) sql += ` ${whereClause}`;
+
+    sql += ` GROUP BY ${groupColumns.join(", ")}`;
+
+    const havingClause = this.buildHavingClause(params);
+    if (havingClause) sql += ` ${havingClause}`;
+
+    if (this.orderByClauses.length > 0) {
+      const clauses = this.orderByClauses.map((o) => {
+        const isAlias = this.aggregates.some((a) => a.alias === o.column);
+        const column = isAlias
+          ? quoteAlias(o.column)
+          : this.source.qualifyColumn(o.column);
+        return `${column} ${o.direction}`;
+      });
+      sql += ` ORDER BY ${clauses.join(", ")}`;
+    }
+
+    if (this.limitCount !== null) sql += ` LIMIT ${this.limitCount}`;
+    if (this.offsetCount !== null) sql += ` OFFSET ${this.offsetCount}`;
+
+    return { sql, params };
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  /**
+   * Build the HAVING clause and collect parameters
+   * Aliases are expanded to their aggregate expressions, since
+   * PostgreSQL does not allow output aliases in HAVING
+   */
+  private buildHavingClause(params: unknown[]): string {
+    if (this.havingConditions.length === 0) {
+      return "";
+    }
+
+    const conditions = this.havingConditions.map((cond, index) => {
+      const aggregate = this.aggregates.find((a) => a.alias === cond.alias)!;
+      const expression = this.aggregateExpression(aggregate);
+
+      const sql = buildComparison(
+        expression,
+        cond.operator,
+        cond.value,
+        params
+      );
+
+      return index === 0 ? sql : `${cond.boolean} ${sql}`;
+    });
+
+    return `HAVING ${conditions.join(" ")}`;
+  }
+
+  /**
+   * Render an aggregate selection with its column qualified
+   */
+  private aggregateExpression(aggregate: AggregateSelection): string {
+    return buildAggregateExpression(
+      aggregate.fn,
+      aggregate.column === null
+        ? null
+        : this.source.qualifyColumn(aggregate.column)
+    );
+  }
+
+  /**
+   * Append an aggregate selection
+   */
+  private addAggregate<NewAggregates extends object>(
+    fn: AggregateFunction,
+    column: string | null,
+    alias: string
+  ): GroupedQueryBuilder<TModel, TGroupKeys, NewAggregates> {
+    if (this.aggregates.some((a) => a.alias === alias)) {
+      throw new Error(`Aggregate alias "${alias}" is already selected`);
+    }
+
+    const builder = this.clone<NewAggregates>();
+    builder.aggregates.push({ fn, column, alias });
+    return builder;
+  }
+
+  /**
+   * Append a HAVING condition
+   */
+  private addHaving(
+    boolean: LogicalOperator,
+    alias: string,
+    operator: ComparisonOperator,
+    value: unknown
+  ): GroupedQueryBuilder<TModel, TGroupKeys, TAggregates> {
+    const builder = this.clone<TAggregates>();
+    builder.havingConditions.push({ boolean, alias, operator, value });
+    return builder;
+  }
+
+  /**
+   * Clone the builder for immutable operations
+   */
+  private clone<NewAggregates extends object>(): GroupedQueryBuilder<
+    TModel,
+    TGroupKeys,
+    NewAggregates
+  > {
+    const builder = new GroupedQueryBuilder<TModel, TGroupKeys, NewAggregates>(
+      this.groupColumns,
+      this.source
+    );
+    builder.aggregates = [...this.aggregates];
+    builder.havingConditions = [...this.havingConditions];
+    builder.orderByClauses = [...this.orderByClauses];
+    builder.limitCount = this.limitCount;
+    builder.offsetCount = this.offsetCount;
+    return builder;
+  }
+}
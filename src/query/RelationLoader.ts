@@ -9,7 +9,9 @@
  * @template TRelations - Union of relation names to load
  */
 
-import { getDbAdapter } from "../db/DbAdapter";
+import { getDbAdapter, Queryable } from "../db/DbAdapter";
+import { withQueryOrigin } from "../db/QueryEvents";
+import { decodeRow, decodeColumnValue, encodeColumnValue } from "./ColumnTypes";
 
 // ============================================================================
 // Relationship Metadata Types
@@ -19,10 +21,61 @@ import { getDbAdapter } from "../db/DbAdapter";
  * Metadata for a single relationship
  */
 export interface RelationMeta {
-  type: "belongsTo" | "hasMany" | "hasOne";
+  type: "belongsTo" | "hasMany" | "hasOne" | "manyToMany";
   targetTable: string;
   sourceColumn: string;
   targetColumn: string;
+  /** Model name of the target table (used to resolve nested relationships) */
+  targetModel?: string;
+  /** Junction table linking source and target (manyToMany only) */
+  through?: ThroughMeta;
+}
+
+/**
+ * Junction table metadata for a manyToMany relationship
+ * E.g., Post.categories through post_categories (post_id, category_id)
+ */
+export interface ThroughMeta {
+  table: string;
+  /** Junction column referencing the source table */
+  sourceColumn: string;
+  /** Junction column referencing the target table */
+  targetColumn: string;
+}
+
+/**
+ * Query constraints applied when loading a relationship
+ * Produced by the include() callback of QueryBuilder
+ */
+export interface RelationConstraint {
+  /** snake_case columns to select, or "*" */
+  columns: string[] | "*";
+  /** Render the conditions (qualified with the target table), collecting params */
+  buildConditions: (params: unknown[]) => string;
+  /** ORDER BY expressions, e.g. '"posts"."published_at" DESC' */
+  orderBy: string[];
+  /** Maximum related rows per parent */
+  limit: number | null;
+  /** Related rows skipped per parent */
+  offset: number | null;
+}
+
+/**
+ * An aggregate over a relationship, computed without loading its rows
+ * Produced by withCount()/withAggregate() of QueryBuilder
+ */
+export interface RelationAggregate {
+  relation: string;
+  /** Property set on each parent record, e.g. "postsCount" */
+  alias: string;
+  /** Aggregate expression over the target table, e.g. 'SUM("posts"."view_count")' */
+  expression: string;
+  /** Render a FILTER condition (qualified with the target table), collecting params */
+  buildConditions?: (params: unknown[]) => string;
+  /** Decode pg's value, e.g. a COUNT to a number or a MAX with the column's codec */
+  decode: (value: unknown) => unknown;
+  /** Value for parents without related records */
+  emptyValue: number | null;
 }
 
 /**
@@ -35,10 +88,163 @@ export type ModelRelationMeta = Record<string, RelationMeta>;
  */
 export type RelationRegistry = Record<string, ModelRelationMeta>;
 
+/**
+ * Global registry, keyed by model name
+ * Populated by the generated client from the introspected relationshipMeta
+ */
+let relationRegistry: RelationRegistry = {};
+
+/**
+ * Register relationship metadata for nested relationship loading
+ *
+ * @param registry - Relationship metadata keyed by model name
+ */
+export function registerRelationMeta(registry: RelationRegistry): void {
+  relationRegistry = { ...relationRegistry, ...registry };
+}
+
+/**
+ * Get the registered relationship metadata of a model
+ */
+export function getRelationMeta(
+  modelName: string
+): ModelRelationMeta | undefined {
+  return relationRegistry[modelName];
+}
+
 // ============================================================================
 // Type Utilities for Relationship Loading
 // ============================================================================
 
+/**
+ * Keys of a model that hold relationships
+ * Generated models declare relationships as optional object/array properties
+ */
+export type RelationKeys<TModel> = {
+  [K in keyof TModel]-?: {} extends Pick<TModel, K>
+    ? NonNullable<TModel[K]> extends object
+      ? K
+      : never
+    : never;
+}[keyof TModel] &
+  string;
+
+/**
+ * Model type on the other side of a relationship (unwraps hasMany arrays)
+ */
+export type RelatedModel<TModel, R extends keyof TModel> = NonNullable<
+  TModel[R]
+> extends Array<infer U>
+  ? U & object
+  : NonNullable<TModel[R]> & object;
+
+/**
+ * Model at the end of an include path
+ * e.g. PathModel<User, "posts.author"> = User
+ */
+export type PathModel<
+  TModel,
+  P extends string
+> = P extends `${infer H}.${infer T}`
+  ? H extends RelationKeys<TModel>
+    ? PathModel<RelatedModel<TModel, H>, T>
+    : never
+  : P extends RelationKeys<TModel>
+  ? RelatedModel<TModel, P>
+  : never;
+
+/**
+ * Maximum depth of include paths offered by IncludePath
+ * (relationships are cyclic, e.g. user.posts.author.posts)
+ */
+type IncludeDepth = [never, 0, 1, 2];
+
+/**
+ * Relationship paths that can be passed to include()
+ * e.g. "posts" | "posts.author" | "posts.postCategories"
+ */
+export type IncludePath<TModel, D extends number = 3> = [D] extends [never]
+  ? never
+  : {
+      [R in RelationKeys<TModel>]:
+        | R
+        | `${R}.${IncludePath<RelatedModel<TModel, R>, IncludeDepth[D]>}`;
+    }[RelationKeys<TModel>];
+
+/**
+ * Entries of QueryBuilder's TIncluded for an include path: the path, plus
+ * a "path:column" entry per column selected by the include() callback
+ * (none when the callback keeps every column)
+ * e.g. IncludedPath<"posts", "id" | "title", Post> =
+ *   "posts" | "posts:id" | "posts:title"
+ */
+export type IncludedPath<
+  P extends string,
+  K extends PropertyKey,
+  TRelated
+> = keyof TRelated extends K ? P : P | `${P}:${K & string}`;
+
+/**
+ * Relationship name of an include path entry, without selected columns
+ */
+type PathName<P extends string> = P extends `${infer H}:${string}` ? H : P;
+
+/**
+ * First segment of an include path
+ */
+type PathHead<P extends string> = P extends `${infer H}.${string}`
+  ? PathName<H>
+  : PathName<P>;
+
+/**
+ * Remaining segments of the include paths that start with H
+ */
+type PathTail<P extends string, H extends string> = P extends `${H}.${infer T}`
+  ? T
+  : never;
+
+/**
+ * Columns selected for relationship H (never: every column)
+ */
+type PathColumns<
+  P extends string,
+  H extends string
+> = P extends `${H}:${infer C}` ? C : never;
+
+/**
+ * A loaded related record: its selected columns and loaded relationships
+ */
+type LoadedModel<T, TPaths extends string, TColumns extends string> = ([
+  TColumns
+] extends [never]
+  ? T
+  : Pick<T, TColumns & keyof T>) &
+  LoadedRelations<T, TPaths>;
+
+/**
+ * A loaded relationship value with its own nested relationships loaded
+ */
+type LoadedRelation<
+  T,
+  TPaths extends string,
+  TColumns extends string
+> = T extends Array<infer U>
+  ? Array<LoadedModel<U, TPaths, TColumns>>
+  : LoadedModel<T, TPaths, TColumns>;
+
+/**
+ * Make the relationships named by include paths required (loaded),
+ * recursing into nested paths; relationships whose include() callback
+ * selected columns only carry those columns
+ */
+export type LoadedRelations<TModel, TPaths extends string> = {
+  [R in PathHead<TPaths> & keyof TModel]-?: LoadedRelation<
+    NonNullable<TModel[R]>,
+    PathTail<TPaths, R>,
+    PathColumns<TPaths, R>
+  >;
+};
+
 /**
  * Make specified relationship keys required (loaded)
  * This transforms the return type when using .include()
@@ -52,6 +258,17 @@ export type WithLoadedRelations<
 // Relation Loader Class
 // ============================================================================
 
+/**
+ * Column alias carrying the parent key in manyToMany queries
+ */
+const PARENT_KEY_ALIAS = "__iblal_parent_key";
+
+/**
+ * Column alias and subquery alias used to rank rows for per-parent limits
+ */
+const ROW_NUMBER_ALIAS = "__iblal_row_number";
+const RANKED_ALIAS = "__iblal_ranked";
+
 /**
  * Handles loading of relationships for query results
  */
@@ -59,15 +276,22 @@ export class RelationLoader<TModel extends object> {
   private modelName: string;
   private tableName: string;
   private relationMeta: ModelRelationMeta;
+  private executor: Queryable | null;
 
+  /**
+   * @param executor - Runs the relationship queries (e.g. a transaction);
+   *   defaults to the shared DbAdapter
+   */
   constructor(
     modelName: string,
     tableName: string,
-    relationMeta: ModelRelationMeta
+    relationMeta: ModelRelationMeta,
+    executor?: Queryable | null
   ) {
     this.modelName = modelName;
     this.tableName = tableName;
     this.relationMeta = relationMeta;
+    this.executor = executor ?? null;
   }
 
   /**
@@ -80,17 +304,19 @@ export class RelationLoader<TModel extends object> {
    *
    * @param records - The parent records to load relations for
    * @param relationNames - Names of relations to load
+   * @param constraints - Query constraints keyed by relation path
    * @returns Records with relationships loaded
    */
   async loadRelations<TRelation extends string>(
     records: TModel[],
-    relationNames: TRelation[]
+    relationNames: TRelation[],
+    constraints: Record<string, RelationConstraint> = {}
   ): Promise<TModel[]> {
     if (records.length === 0) return records;
 
-    const adapter = getDbAdapter();
+    const adapter = this.executor ?? getDbAdapter();
 
-    for (const relationName of relationNames) {
+    for (const [relationName, nestedPaths] of this.groupPaths(relationNames)) {
       const meta = this.relationMeta[relationName];
       if (!meta) {
         console.warn(
@@ -99,18 +325,272 @@ export class RelationLoader<TModel extends object> {
         continue;
       }
 
+      const constraint = constraints[relationName];
+
       if (meta.type === "belongsTo") {
-        await this.loadBelongsTo(records, relationName, meta, adapter);
+        await this.loadBelongsTo(
+          records,
+          relationName,
+          meta,
+          constraint,
+          adapter
+        );
       } else if (meta.type === "hasMany") {
-        await this.loadHasMany(records, relationName, meta, adapter);
+        await this.loadHasMany(
+          records,
+          relationName,
+          meta,
+          constraint,
+          adapter
+        );
       } else if (meta.type === "hasOne") {
-        await this.loadHasOne(records, relationName, meta, adapter);
+        await this.loadHasOne(records, relationName, meta, constraint, adapter);
+      } else if (meta.type === "manyToMany") {
+        await this.loadManyToMany(
+          records,
+          relationName,
+          meta,
+          constraint,
+          adapter
+        );
+      }
+
+      if (nestedPaths.length > 0) {
+        await this.loadNested(
+          records,
+          relationName,
+          meta,
+          nestedPaths,
+          this.nestedConstraints(constraints, relationName)
+        );
       }
     }
 
     return records;
   }
 
+  /**
+   * Compute relationship aggregates for a set of records
+   *
+   * Runs one grouped query per relationship for all records, whatever
+   * the number of aggregates on it; aggregates with conditions use
+   * FILTER (WHERE ...) so they share that query.
+   *
+   * @param records - The parent records to compute aggregates for
+   * @param aggregates - Aggregates to compute
+   * @returns Records with an aggregate property per alias
+   */
+  async loadAggregates(
+    records: TModel[],
+    aggregates: RelationAggregate[]
+  ): Promise<TModel[]> {
+    if (records.length === 0) return records;
+
+    const adapter = this.executor ?? getDbAdapter();
+
+    const byRelation = new Map<string, RelationAggregate[]>();
+    for (const aggregate of aggregates) {
+      if (!byRelation.has(aggregate.relation)) {
+        byRelation.set(aggregate.relation, []);
+      }
+      byRelation.get(aggregate.relation)!.push(aggregate);
+    }
+
+    for (const [relationName, relationAggregates] of byRelation) {
+      const meta = this.relationMeta[relationName];
+      if (!meta) {
+        console.warn(
+          `Unknown relationship "${relationName}" on ${this.modelName}`
+        );
+        continue;
+      }
+
+      await this.loadRelationAggregates(
+        records,
+        meta,
+        relationAggregates,
+        adapter
+      );
+    }
+
+    return records;
+  }
+
+  /**
+   * Compute the aggregates of one relationship with a grouped query
+   */
+  private async loadRelationAggregates(
+    records: TModel[],
+    meta: RelationMeta,
+    aggregates: RelationAggregate[],
+    adapter: Queryable
+  ): Promise<void> {
+    const pkColumn = this.snakeToCamel(meta.sourceColumn);
+
+    // Without the key every parent would silently get the empty value
+    if (records.some((r) => !(pkColumn in (r as Record<string, unknown>)))) {
+      throw new Error(
+        `Aggregates of relationship "${aggregates[0].relation}" require the "${pkColumn}" column in select()`
+      );
+    }
+
+    const pkValues = [
+      ...new Set(
+        records
+          .map((r) => (r as Record<string, unknown>)[pkColumn])
+          .filter((v) => v !== null && v !== undefined)
+      ),
+    ];
+
+    const results = new Map<unknown, Record<string, unknown>>();
+
+    if (pkValues.length > 0) {
+      const target = `"${meta.targetTable}"`;
+      const through = meta.type === "manyToMany" ? meta.through : undefined;
+      const keyColumn = through
+        ? `"${through.table}"."${through.sourceColumn}"`
+        : `${target}."${meta.targetColumn}"`;
+      const from = through
+        ? `${target} INNER JOIN "${through.table}" ON "${through.table}"."${through.targetColumn}" = ${target}."${meta.targetColumn}"`
+        : target;
+
+      const params: unknown[] = pkValues.map((v) =>
+        encodeColumnValue(this.tableName, meta.sourceColumn, v)
+      );
+      const placeholders = pkValues.map((_, i) => `$${i + 1}`).join(", ");
+
+      const columns = [`${keyColumn} AS "${PARENT_KEY_ALIAS}"`];
+      for (const aggregate of aggregates) {
+        const conditions = aggregate.buildConditions
+          ? aggregate.buildConditions(params)
+          : "";
+        const filter = conditions ? ` FILTER (WHERE ${conditions})` : "";
+        columns.push(
+          `${aggregate.expression}${filter} AS "${aggregate.alias}"`
+        );
+      }
+
+      const sql = `SELECT ${columns.join(
+        ", "
+      )} FROM ${from} WHERE ${keyColumn} IN (${placeholders}) GROUP BY ${keyColumn}`;
+
+      const origin = {
+        table: meta.targetTable,
+        model: meta.targetModel,
+        operation: "loadAggregate" as const,
+      };
+      const result = await withQueryOrigin(origin, () =>
+        adapter.readQuery
+          ? adapter.readQuery(sql, params)
+          : adapter.query(sql, params)
+      );
+      for (const row of result.rows) {
+        results.set(this.parentKey(meta, row[PARENT_KEY_ALIAS]), row);
+      }
+    }
+
+    // Attach aggregate values to parents
+    for (const record of records) {
+      const row = results.get((record as Record<string, unknown>)[pkColumn]);
+      for (const aggregate of aggregates) {
+        const value = row ? row[aggregate.alias] : null;
+        (record as Record<string, unknown>)[aggregate.alias] =
+          value === null || value === undefined
+            ? aggregate.emptyValue
+            : aggregate.decode(value);
+      }
+    }
+  }
+
+  /**
+   * Group dotted include paths by their first segment
+   * e.g. ["posts", "posts.author", "profile"] →
+   *   { posts: ["author"], profile: [] }
+   */
+  private groupPaths(paths: string[]): Map<string, string[]> {
+    const grouped = new Map<string, string[]>();
+
+    for (const path of paths) {
+      const [head, ...rest] = path.split(".");
+      if (!grouped.has(head)) {
+        grouped.set(head, []);
+      }
+      if (rest.length > 0) {
+        grouped.get(head)!.push(rest.join("."));
+      }
+    }
+
+    return grouped;
+  }
+
+  /**
+   * Constraints on the paths below a relationship, relative to it
+   * e.g. { "posts.author": c } → { author: c } for "posts"
+   */
+  private nestedConstraints(
+    constraints: Record<string, RelationConstraint>,
+    relationName: string
+  ): Record<string, RelationConstraint> {
+    const prefix = `${relationName}.`;
+    const nested: Record<string, RelationConstraint> = {};
+
+    for (const [path, constraint] of Object.entries(constraints)) {
+      if (path.startsWith(prefix)) {
+        nested[path.slice(prefix.length)] = constraint;
+      }
+    }
+
+    return nested;
+  }
+
+  /**
+   * Load the next level of a dotted include path
+   *
+   * Collects every record loaded for the relationship and loads the
+   * nested paths on all of them at once, using the target model's
+   * metadata from the global registry.
+   */
+  private async loadNested(
+    records: TModel[],
+    relationName: string,
+    meta: RelationMeta,
+    nestedPaths: string[],
+    constraints: Record<string, RelationConstraint>
+  ): Promise<void> {
+    const targetMeta = meta.targetModel
+      ? getRelationMeta(meta.targetModel)
+      : undefined;
+
+    if (!meta.targetModel || !targetMeta) {
+      console.warn(
+        `Cannot load nested relationships of ${
+          this.modelName
+        }.${relationName}: no relationship metadata registered for "${
+          meta.targetModel ?? meta.targetTable
+        }"`
+      );
+      return;
+    }
+
+    // Related records can be shared between parents (belongsTo), so dedupe
+    const related = new Set<Record<string, unknown>>();
+    for (const record of records) {
+      const value = (record as Record<string, unknown>)[relationName];
+      const values = Array.isArray(value) ? value : [value];
+      for (const item of values) {
+        if (item) related.add(item as Record<string, unknown>);
+      }
+    }
+
+    const loader = new RelationLoader<Record<string, unknown>>(
+      meta.targetModel,
+      meta.targetTable,
+      targetMeta,
+      this.executor
+    );
+    await loader.loadRelations([...related], nestedPaths, constraints);
+  }
+
   /**
    * Load a belongsTo relationship
    * E.g., Post.author (Post belongsTo User via author_id)
@@ -119,7 +599,8 @@ export class RelationLoader<TModel extends object> {
     records: TModel[],
     relationName: string,
     meta: RelationMeta,
-    adapter: ReturnType<typeof getDbAdapter>
+    constraint: RelationConstraint | undefined,
+    adapter: Queryable
   ): Promise<void> {
     // Get the foreign key column name in camelCase
     const fkColumn = this.snakeToCamel(meta.sourceColumn);
@@ -135,18 +616,15 @@ export class RelationLoader<TModel extends object> {
 
     if (fkValues.length === 0) return;
 
-    // Build query to fetch all related records
+    // Fetch all related records in one query
     const targetColumnSnake = meta.targetColumn;
-    const placeholders = fkValues.map((_, i) => `$${i + 1}`).join(", ");
-    const sql = `SELECT * FROM "${meta.targetTable}" WHERE "${targetColumnSnake}" IN (${placeholders})`;
-
-    const result = await adapter.query(sql, fkValues);
+    const rows = await this.queryRelated(meta, fkValues, constraint, adapter);
 
     // Create a map of target column value -> related record
     const relatedMap = new Map<unknown, unknown>();
-    for (const row of result.rows) {
-      const key = row[targetColumnSnake];
-      relatedMap.set(key, this.transformRow(row));
+    for (const row of rows) {
+      const key = this.parentKey(meta, row[targetColumnSnake]);
+      relatedMap.set(key, this.transformRow(meta.targetTable, row));
     }
 
     // Attach related records to parents
@@ -165,7 +643,8 @@ export class RelationLoader<TModel extends object> {
     records: TModel[],
     relationName: string,
     meta: RelationMeta,
-    adapter: ReturnType<typeof getDbAdapter>
+    constraint: RelationConstraint | undefined,
+    adapter: Queryable
   ): Promise<void> {
     // Get the primary key column on the source table
     const pkColumn = this.snakeToCamel(meta.sourceColumn);
@@ -181,21 +660,18 @@ export class RelationLoader<TModel extends object> {
 
     if (pkValues.length === 0) return;
 
-    // Build query to fetch all related records
+    // Fetch all related records in one query
     const targetColumnSnake = meta.targetColumn;
-    const placeholders = pkValues.map((_, i) => `$${i + 1}`).join(", ");
-    const sql = `SELECT * FROM "${meta.targetTable}" WHERE "${targetColumnSnake}" IN (${placeholders})`;
-
-    const result = await adapter.query(sql, pkValues);
+    const rows = await this.queryRelated(meta, pkValues, constraint, adapter);
 
     // Create a map of foreign key value -> array of related records
     const relatedMap = new Map<unknown, unknown[]>();
-    for (const row of result.rows) {
-      const key = row[targetColumnSnake];
+    for (const row of rows) {
+      const key = this.parentKey(meta, row[targetColumnSnake]);
       if (!relatedMap.has(key)) {
         relatedMap.set(key, []);
       }
-      relatedMap.get(key)!.push(this.transformRow(row));
+      relatedMap.get(key)!.push(this.transformRow(meta.targetTable, row));
     }
 
     // Attach related records to parents
@@ -214,7 +690,8 @@ export class RelationLoader<TModel extends object> {
     records: TModel[],
     relationName: string,
     meta: RelationMeta,
-    adapter: ReturnType<typeof getDbAdapter>
+    constraint: RelationConstraint | undefined,
+    adapter: Queryable
   ): Promise<void> {
     // Same as hasMany but only take first result
     const pkColumn = this.snakeToCamel(meta.sourceColumn);
@@ -230,17 +707,14 @@ export class RelationLoader<TModel extends object> {
     if (pkValues.length === 0) return;
 
     const targetColumnSnake = meta.targetColumn;
-    const placeholders = pkValues.map((_, i) => `$${i + 1}`).join(", ");
-    const sql = `SELECT * FROM "${meta.targetTable}" WHERE "${targetColumnSnake}" IN (${placeholders})`;
-
-    const result = await adapter.query(sql, pkValues);
+    const rows = await this.queryRelated(meta, pkValues, constraint, adapter);
 
     // Create a map of foreign key value -> first related record
     const relatedMap = new Map<unknown, unknown>();
-    for (const row of result.rows) {
-      const key = row[targetColumnSnake];
+    for (const row of rows) {
+      const key = this.parentKey(meta, row[targetColumnSnake]);
       if (!relatedMap.has(key)) {
-        relatedMap.set(key, this.transformRow(row));
+        relatedMap.set(key, this.transformRow(meta.targetTable, row));
       }
     }
 
@@ -253,12 +727,173 @@ export class RelationLoader<TModel extends object> {
   }
 
   /**
-   * Transform a database row from snake_case to camelCase
+   * Load a manyToMany relationship through its junction table
+   * E.g., Post.categories (Post <-> Category via post_categories)
+   *
+   * Uses a single query joining the target table to the junction table,
+   * selecting the junction's source key to map rows back to parents.
    */
-  private transformRow(row: Record<string, unknown>): Record<string, unknown> {
+  private async loadManyToMany(
+    records: TModel[],
+    relationName: string,
+    meta: RelationMeta,
+    constraint: RelationConstraint | undefined,
+    adapter: Queryable
+  ): Promise<void> {
+    const through = meta.through;
+    if (!through) {
+      console.warn(
+        `Relationship "${relationName}" on ${this.modelName} is missing junction table metadata`
+      );
+      return;
+    }
+
+    const pkColumn = this.snakeToCamel(meta.sourceColumn);
+
+    const pkValues = [
+      ...new Set(
+        records
+          .map((r) => (r as Record<string, unknown>)[pkColumn])
+          .filter((v) => v !== null && v !== undefined)
+      ),
+    ];
+
+    if (pkValues.length === 0) return;
+
+    const rows = await this.queryRelated(meta, pkValues, constraint, adapter);
+
+    // Create a map of source key value -> array of related records
+    const relatedMap = new Map<unknown, unknown[]>();
+    for (const row of rows) {
+      const { [PARENT_KEY_ALIAS]: rawKey, ...related } = row;
+      const key = this.parentKey(meta, rawKey);
+      if (!relatedMap.has(key)) {
+        relatedMap.set(key, []);
+      }
+      relatedMap.get(key)!.push(this.transformRow(meta.targetTable, related));
+    }
+
+    // Attach related records to parents
+    for (const record of records) {
+      const pkValue = (record as Record<string, unknown>)[pkColumn];
+      (record as Record<string, unknown>)[relationName] =
+        relatedMap.get(pkValue) || [];
+    }
+  }
+
+  /**
+   * Fetch the related rows of a relationship for a set of parent keys
+   *
+   * Without a constraint this is a plain `SELECT * ... IN (...)`. A
+   * constraint adds its conditions, ordering and column selection; its
+   * limit/offset apply per parent (hasMany and manyToMany) by ranking
+   * rows with ROW_NUMBER() partitioned by the parent key, so it is still
+   * a single query. manyToMany rows carry the parent key as
+   * PARENT_KEY_ALIAS.
+   */
+  private async queryRelated(
+    meta: RelationMeta,
+    keyValues: unknown[],
+    constraint: RelationConstraint | undefined,
+    adapter: Queryable
+  ): Promise<Record<string, unknown>[]> {
+    const target = `"${meta.targetTable}"`;
+    const through = meta.type === "manyToMany" ? meta.through : undefined;
+    const qualified = through !== undefined || constraint !== undefined;
+
+    // Column mapping rows back to their parents
+    const keyColumn = through
+      ? `"${through.table}"."${through.sourceColumn}"`
+      : qualified
+      ? `${target}."${meta.targetColumn}"`
+      : `"${meta.targetColumn}"`;
+
+    let columns: string[];
+    if (!constraint || constraint.columns === "*") {
+      columns = [qualified ? `${target}.*` : "*"];
+    } else {
+      const selected = [...constraint.columns];
+      // The key column is always needed to attach rows to parents
+      if (!through && !selected.includes(meta.targetColumn)) {
+        selected.push(meta.targetColumn);
+      }
+      columns = selected.map((col) => `${target}."${col}"`);
+    }
+    if (through) {
+      columns.push(`${keyColumn} AS "${PARENT_KEY_ALIAS}"`);
+    }
+
+    const from = through
+      ? `${target} INNER JOIN "${through.table}" ON "${through.table}"."${through.targetColumn}" = ${target}."${meta.targetColumn}"`
+      : target;
+
+    const params: unknown[] = keyValues.map((v) =>
+      encodeColumnValue(this.tableName, meta.sourceColumn, v)
+    );
+    const placeholders = keyValues.map((_, i) => `$${i + 1}`).join(", ");
+    let where = `${keyColumn} IN (${placeholders})`;
+    const conditions = constraint ? constraint.buildConditions(params) : "";
+    if (conditions) where += ` AND (${conditions})`;
+
+    const orderBy = constraint ? constraint.orderBy.join(", ") : "";
+    const perParent =
+      constraint !== undefined &&
+      (constraint.limit !== null || constraint.offset !== null) &&
+      (meta.type === "hasMany" || meta.type === "manyToMany");
+
+    let sql: string;
+    if (perParent) {
+      const offset = constraint.offset ?? 0;
+      const range = [`"${ROW_NUMBER_ALIAS}" > ${offset}`];
+      if (constraint.limit !== null) {
+        range.push(`"${ROW_NUMBER_ALIAS}" <= ${offset + constraint.limit}`);
+      }
+      const over = `PARTITION BY ${keyColumn}${
+        orderBy ? ` ORDER BY ${orderBy}` : ""
+      }`;
+      sql = `SELECT * FROM (SELECT ${columns.join(
+        ", "
+      )}, ROW_NUMBER() OVER (${over}) AS "${ROW_NUMBER_ALIAS}" FROM ${from} WHERE ${where}) AS "${RANKED_ALIAS}" WHERE ${range.join(
+        " AND "
+      )} ORDER BY "${ROW_NUMBER_ALIAS}"`;
+    } else {
+      sql = `SELECT ${columns.join(", ")} FROM ${from} WHERE ${where}`;
+      if (orderBy) sql += ` ORDER BY ${orderBy}`;
+    }
+
+    const origin = {
+      table: meta.targetTable,
+      model: meta.targetModel,
+      operation: "loadRelation" as const,
+    };
+    const result = await withQueryOrigin(origin, () =>
+      adapter.readQuery
+        ? adapter.readQuery(sql, params)
+        : adapter.query(sql, params)
+    );
+
+    if (!perParent) return result.rows;
+    return result.rows.map(({ [ROW_NUMBER_ALIAS]: _, ...row }) => row);
+  }
+
+  /**
+   * Decode a key read from a related row with the codec of the parent's
+   * key column, so it matches the parents' decoded values
+   */
+  private parentKey(meta: RelationMeta, value: unknown): unknown {
+    return decodeColumnValue(this.tableName, meta.sourceColumn, value);
+  }
+
+  /**
+   * Decode a related row and transform it from snake_case to camelCase
+   */
+  private transformRow(
+    tableName: string,
+    row: Record<string, unknown>
+  ): Record<string, unknown> {
     const transformed: Record<string, unknown> = {};
 
-    for (const [key, value] of Object.entries(row)) {
+    for (const [key, value] of Object.entries(decodeRow(tableName, row))) {
       const camelKey = this.snakeToCamel(key);
       transformed[camelKey] = value;
     }
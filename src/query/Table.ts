@@ -8,8 +8,15 @@
  * @template TAutoFields - Keys of auto-generated fields (excluded from insert)
  */
 
-import { getDbAdapter } from "../db/DbAdapter";
+import { getDbAdapter, Queryable } from "../db/DbAdapter";
+import {
+  QueryOperation,
+  QueryOrigin,
+  withQueryOrigin,
+} from "../db/QueryEvents";
+import { decodeRow, encodeColumnValue } from "./ColumnTypes";
 import { QueryBuilder } from "./QueryBuilder";
+import { JsonSelectPath, JsonSelection } from "./JsonPath";
 import { ModelRelationMeta } from "./RelationLoader";
 
 /**
@@ -45,16 +52,11 @@ type RequiredKeys<T> = KeysWhereValueNotExtends<T, null>;
 
 /**
  * Helper type: Exclude relationship properties (those ending with ?)
- * Relationships are defined as optional in the interface
+ * Relationships are defined as optional in the interface; columns are
+ * required even when they hold objects (Date, JSON, composite types)
  */
 type DataKeys<T> = {
-  [K in keyof T]: T[K] extends (infer U)[] | undefined
-    ? U extends object
-      ? never // Array relationships
-      : K
-    : T[K] extends object | undefined
-    ? never // Object relationships
-    : K;
+  [K in keyof T]-?: {} extends Pick<T, K> ? never : K;
 }[keyof T];
 
 /**
@@ -79,33 +81,141 @@ export type UpdateData<TModel, TAutoFields extends keyof TModel> = Partial<
   Pick<TModel, Exclude<DataKeys<TModel>, TAutoFields>>
 >;
 
+/**
+ * Helper type: true when T is a union of several members
+ */
+type IsUnion<T, U = T> = T extends unknown
+  ? [U] extends [T]
+    ? false
+    : true
+  : never;
+
+/**
+ * Value identifying a single record by primary key
+ * Single-column keys accept the bare value or a key object;
+ * composite keys require an object with every key column,
+ * e.g. { postId: 1, categoryId: 2 }
+ */
+export type PrimaryKeyValue<TModel, TPrimaryKey extends keyof TModel> = [
+  TPrimaryKey
+] extends [never]
+  ? never
+  : true extends IsUnion<TPrimaryKey>
+  ? Pick<TModel, TPrimaryKey>
+  : TModel[TPrimaryKey] | Pick<TModel, TPrimaryKey>;
+
+/**
+ * Raw SQL expression, used as a computed value when merging on conflict
+ * The proposed row is available as EXCLUDED,
+ * e.g. raw('"posts"."view_count" + EXCLUDED."view_count"')
+ */
+export class RawExpression {
+  constructor(public readonly sql: string) {}
+}
+
+/**
+ * Create a raw SQL expression
+ */
+export function raw(sql: string): RawExpression {
+  return new RawExpression(sql);
+}
+
+/**
+ * Conflict target of an upsert: unique columns or a constraint name
+ */
+export type ConflictTarget<TModel> =
+  | Array<keyof TModel & string>
+  | { constraint: string };
+
+/**
+ * Columns updated when an upsert conflicts
+ * - "all": every inserted column except the conflict target
+ * - column list: set from the proposed row (EXCLUDED)
+ * - object: explicit values or raw expressions per column
+ */
+export type MergeColumns<TModel, TAutoFields extends keyof TModel> =
+  | "all"
+  | Array<Exclude<DataKeys<TModel>, TAutoFields> & string>
+  | {
+      [K in Exclude<DataKeys<TModel>, TAutoFields>]?: TModel[K] | RawExpression;
+    };
+
+/**
+ * ON CONFLICT behaviour for inserts
+ * DO UPDATE needs a conflict target, DO NOTHING can apply to any conflict
+ */
+export type OnConflict<TModel, TAutoFields extends keyof TModel> =
+  | { target?: ConflictTarget<TModel>; doNothing: true }
+  | {
+      target: ConflictTarget<TModel>;
+      merge: MergeColumns<TModel, TAutoFields>;
+    };
+
+/**
+ * Options for insert operations
+ */
+export interface InsertOptions<TModel, TAutoFields extends keyof TModel> {
+  onConflict?: OnConflict<TModel, TAutoFields>;
+}
+
 /**
  * Table Repository Class
  *
  * Provides full CRUD operations with type safety.
  * Auto-generated fields (like id, createdAt) are automatically
  * excluded from insert operations.
+ *
+ * @template TModel - The model interface for this table
+ * @template TAutoFields - Keys of auto-generated fields (excluded from insert)
+ * @template TPrimaryKey - Primary key columns (defaults to "id")
  */
 export class Table<
   TModel extends object,
-  TAutoFields extends keyof TModel = never
+  TAutoFields extends keyof TModel = never,
+  TPrimaryKey extends keyof TModel & string = Extract<keyof TModel, "id">
 > {
   private tableName: string;
   private modelName: string;
   private autoFields: Set<string>;
   private relationMeta: ModelRelationMeta;
+  private primaryKey: Array<keyof TModel & string>;
+  private executor: Queryable | null;
+  private hasUpdatedAt: boolean;
 
+  /**
+   * @param tableName - The database table name
+   * @param autoFields - Auto-generated fields, in addition to id, createdAt
+   *   and updatedAt
+   * @param modelName - The model name (for relationship loading)
+   * @param relationMeta - Relationship metadata for this model
+   * @param primaryKey - Primary key columns (defaults to ["id"])
+   * @param executor - Runs the queries (e.g. a transaction); defaults to
+   *   the shared DbAdapter
+   * @param hasUpdatedAt - Whether the table has an updated_at column, set
+   *   to CURRENT_TIMESTAMP by updates
+   */
   constructor(
     tableName: string,
-    autoFields: Array<keyof TModel & string> = [],
+    autoFields?: Array<keyof TModel & string>,
     modelName?: string,
-    relationMeta?: ModelRelationMeta
+    relationMeta?: ModelRelationMeta,
+    primaryKey?: TPrimaryKey[],
+    executor?: Queryable | null,
+    hasUpdatedAt: boolean = true
   ) {
     this.tableName = tableName;
     this.modelName = modelName || "";
     this.relationMeta = relationMeta || {};
     // Default auto fields + custom ones
-    this.autoFields = new Set(["id", "createdAt", "updatedAt", ...autoFields]);
+    this.autoFields = new Set([
+      "id",
+      "createdAt",
+      "updatedAt",
+      ...(autoFields ?? []),
+    ]);
+    this.primaryKey = primaryKey ?? ["id" as keyof TModel & string];
+    this.executor = executor ?? null;
+    this.hasUpdatedAt = hasUpdatedAt;
   }
 
   /**
@@ -128,21 +238,37 @@ export class Table<
 
   /**
    * Select specific columns - starts a query builder chain with type projection
+   * Paths into JSON columns ("metadata.seo.title") select the value at that path
    */
-  select<K extends keyof TModel & string>(
+  select<K extends (keyof TModel & string) | JsonSelectPath<TModel>>(
     ...columns: K[]
-  ): QueryBuilder<TModel, K>;
+  ): QueryBuilder<
+    TModel,
+    Extract<K, keyof TModel>,
+    never,
+    {},
+    JsonSelection<TModel, Exclude<K, keyof TModel>>
+  >;
 
   /**
    * Implementation
    */
-  select<K extends keyof TModel & string>(
+  select<K extends (keyof TModel & string) | JsonSelectPath<TModel>>(
     ...columns: K[] | ["*"]
-  ): QueryBuilder<TModel, K> | QueryBuilder<TModel, keyof TModel> {
+  ):
+    | QueryBuilder<
+        TModel,
+        Extract<K, keyof TModel>,
+        never,
+        {},
+        JsonSelection<TModel, Exclude<K, keyof TModel>>
+      >
+    | QueryBuilder<TModel, keyof TModel> {
     const builder = new QueryBuilder<TModel>(
       this.tableName,
       this.modelName,
-      this.relationMeta
+      this.relationMeta,
+      this.executor
     );
 
     if (columns.length === 1 && columns[0] === "*") {
@@ -162,25 +288,29 @@ export class Table<
     return new QueryBuilder<TModel>(
       this.tableName,
       this.modelName,
-      this.relationMeta
+      this.relationMeta,
+      this.executor
     ).where(column, value);
   }
 
   /**
-   * Find a record by ID
+   * Find a record by primary key
+   *
+   * @param key - Key value, or a key object for composite keys
    */
-  async findById(id: number | string): Promise<TModel | null> {
-    const builder = new QueryBuilder<TModel>(
+  async findById(
+    key: PrimaryKeyValue<TModel, TPrimaryKey>
+  ): Promise<TModel | null> {
+    let builder = new QueryBuilder<TModel>(
       this.tableName,
       this.modelName,
-      this.relationMeta
+      this.relationMeta,
+      this.executor
     );
-    return builder
-      .where(
-        "id" as keyof TModel & string,
-        id as unknown as TModel[keyof TModel & string]
-      )
-      .first() as Promise<TModel | null>;
+    for (const [column, value] of this.keyConditions(key)) {
+      builder = builder.where(column, value);
+    }
+    return builder.first() as Promise<TModel | null>;
   }
 
   /**
@@ -190,7 +320,8 @@ export class Table<
     const builder = new QueryBuilder<TModel>(
       this.tableName,
       this.modelName,
-      this.relationMeta
+      this.relationMeta,
+      this.executor
     );
     return builder.select("*").exec() as Promise<TModel[]>;
   }
@@ -208,8 +339,28 @@ export class Table<
    * @param data - Data to insert (auto fields excluded)
    * @returns The inserted record with all fields
    */
-  async insert(data: InsertData<TModel, TAutoFields>): Promise<TModel> {
-    const adapter = getDbAdapter();
+  async insert(data: InsertData<TModel, TAutoFields>): Promise<TModel>;
+
+  /**
+   * Insert a single record with conflict handling
+   *
+   * @param data - Data to insert (auto fields excluded)
+   * @param options - ON CONFLICT behaviour
+   * @returns The inserted or merged record, or null if the conflict was ignored
+   */
+  async insert(
+    data: InsertData<TModel, TAutoFields>,
+    options: InsertOptions<TModel, TAutoFields>
+  ): Promise<TModel | null>;
+
+  /**
+   * Implementation
+   */
+  async insert(
+    data: InsertData<TModel, TAutoFields>,
+    options: InsertOptions<TModel, TAutoFields> = {}
+  ): Promise<TModel | null> {
+    const adapter = this.executor ?? getDbAdapter();
 
     const entries = Object.entries(data as Record<string, unknown>).filter(
       ([key]) => !this.autoFields.has(key)
@@ -217,30 +368,74 @@ export class Table<
 
     const columns = entries.map(([key]) => `"${camelToSnake(key)}"`);
     const placeholders = entries.map((_, i) => `$${i + 1}`);
-    const values = entries.map(([, value]) => value);
+    const values = entries.map(([key, value]) =>
+      encodeColumnValue(this.tableName, camelToSnake(key), value)
+    );
+
+    const onConflict = options.onConflict
+      ? ` ${this.buildOnConflictClause(
+          options.onConflict,
+          entries.map(([key]) => key),
+          values
+        )}`
+      : "";
 
     const sql = `
       INSERT INTO "${this.tableName}" (${columns.join(", ")})
-      VALUES (${placeholders.join(", ")})
+      VALUES (${placeholders.join(", ")})${onConflict}
       RETURNING *
     `;
 
-    const result = await adapter.query(sql, values);
+    const result = await withQueryOrigin(this.queryOrigin("insert"), () =>
+      adapter.query(sql, values)
+    );
+    if (result.rows.length === 0) return null;
     return this.transformRow(result.rows[0]) as TModel;
   }
 
+  /**
+   * Insert or update records on conflict (INSERT ... ON CONFLICT DO UPDATE)
+   *
+   * @param data - Record or records to insert
+   * @param target - Unique columns or constraint that detect the conflict
+   * @param merge - Columns to update on conflict (defaults to all inserted)
+   * @returns The inserted and updated records
+   *
+   * @example
+   * // Idempotent import of users by email
+   * const users = await db.user.upsert(rows, ["email"]);
+   *
+   * @example
+   * // Only refresh the display name of existing users
+   * await db.user.upsert(row, ["email"], ["displayName"]);
+   */
+  async upsert(
+    data: InsertData<TModel, TAutoFields> | InsertData<TModel, TAutoFields>[],
+    target: ConflictTarget<TModel>,
+    merge: MergeColumns<TModel, TAutoFields> = "all"
+  ): Promise<TModel[]> {
+    return this.insertMany(Array.isArray(data) ? data : [data], {
+      onConflict: { target, merge },
+    });
+  }
+
   /**
    * Insert multiple records
    *
+   * With onConflict, only the inserted or merged rows are returned
+   * (rows skipped by DO NOTHING are not).
+   *
    * @param dataArray - Array of records to insert
+   * @param options - ON CONFLICT behaviour
    * @returns Array of inserted records
    */
   async insertMany(
-    dataArray: InsertData<TModel, TAutoFields>[]
+    dataArray: InsertData<TModel, TAutoFields>[],
+    options: InsertOptions<TModel, TAutoFields> = {}
   ): Promise<TModel[]> {
     if (dataArray.length === 0) return [];
 
-    const adapter = getDbAdapter();
+    const adapter = this.executor ?? getDbAdapter();
 
     // Get columns from first record
     const firstRecord = dataArray[0] as Record<string, unknown>;
@@ -256,19 +451,27 @@ export class Table<
     dataArray.forEach((data, rowIndex) => {
       const record = data as Record<string, unknown>;
       const placeholders = keys.map((key, colIndex) => {
-        allValues.push(record[key]);
+        allValues.push(
+          encodeColumnValue(this.tableName, camelToSnake(key), record[key])
+        );
         return `$${rowIndex * keys.length + colIndex + 1}`;
       });
       valueRows.push(`(${placeholders.join(", ")})`);
     });
 
+    const onConflict = options.onConflict
+      ? ` ${this.buildOnConflictClause(options.onConflict, keys, allValues)}`
+      : "";
+
     const sql = `
       INSERT INTO "${this.tableName}" (${columns.join(", ")})
-      VALUES ${valueRows.join(", ")}
+      VALUES ${valueRows.join(", ")}${onConflict}
       RETURNING *
     `;
 
-    const result = await adapter.query(sql, allValues);
+    const result = await withQueryOrigin(this.queryOrigin("insert"), () =>
+      adapter.query(sql, allValues)
+    );
     return result.rows.map((row) => this.transformRow(row) as TModel);
   }
 
@@ -283,26 +486,31 @@ export class Table<
    * @returns UpdateBuilder for chaining where conditions
    */
   update(data: UpdateData<TModel, TAutoFields>): UpdateBuilder<TModel> {
-    return new UpdateBuilder<TModel>(this.tableName, data, this.autoFields);
+    return new UpdateBuilder<TModel>(
+      this.tableName,
+      data,
+      this.autoFields,
+      this.executor,
+      this.hasUpdatedAt
+    );
   }
 
   /**
-   * Update a record by ID
+   * Update a record by primary key
    *
-   * @param id - Record ID
+   * @param key - Key value, or a key object for composite keys
    * @param data - Partial data to update
    * @returns Updated record or null if not found
    */
   async updateById(
-    id: number | string,
+    key: PrimaryKeyValue<TModel, TPrimaryKey>,
     data: UpdateData<TModel, TAutoFields>
   ): Promise<TModel | null> {
-    const result = await this.update(data)
-      .where(
-        "id" as keyof TModel & string,
-        id as unknown as TModel[keyof TModel & string]
-      )
-      .exec();
+    const builder = this.update(data);
+    for (const [column, value] of this.keyConditions(key)) {
+      builder.where(column, value);
+    }
+    const result = await builder.exec();
     return result[0] || null;
   }
 
@@ -315,20 +523,22 @@ export class Table<
    * @returns DeleteBuilder for chaining where conditions
    */
   delete(): DeleteBuilder<TModel> {
-    return new DeleteBuilder<TModel>(this.tableName);
+    return new DeleteBuilder<TModel>(this.tableName, this.executor);
   }
 
   /**
-   * Delete a record by ID
+   * Delete a record by primary key
+   * @param key - Key value, or a key object for composite keys
    * @returns true if deleted, false if not found
    */
-  async deleteById(id: number | string): Promise<boolean> {
-    const count = await this.delete()
-      .where(
-        "id" as keyof TModel & string,
-        id as unknown as TModel[keyof TModel & string]
-      )
-      .exec();
+  async deleteById(
+    key: PrimaryKeyValue<TModel, TPrimaryKey>
+  ): Promise<boolean> {
+    const builder = this.delete();
+    for (const [column, value] of this.keyConditions(key)) {
+      builder.where(column, value);
+    }
+    const count = await builder.exec();
     return count > 0;
   }
 
@@ -337,12 +547,123 @@ export class Table<
   // ==========================================================================
 
   /**
-   * Transform a database row from snake_case to camelCase
+   * Origin reported to query hooks
+   */
+  private queryOrigin(operation: QueryOperation): QueryOrigin {
+    return {
+      table: this.tableName,
+      model: this.modelName || undefined,
+      operation,
+    };
+  }
+
+  /**
+   * Resolve a primary key value into column/value pairs
+   */
+  private keyConditions(
+    key: unknown
+  ): Array<[keyof TModel & string, TModel[keyof TModel & string]]> {
+    if (this.primaryKey.length === 0) {
+      throw new Error(`Table "${this.tableName}" has no primary key`);
+    }
+
+    const isKeyObject =
+      typeof key === "object" && key !== null && !(key instanceof Date);
+
+    if (this.primaryKey.length === 1 && !isKeyObject) {
+      return [[this.primaryKey[0], key as TModel[keyof TModel & string]]];
+    }
+
+    const values = (isKeyObject ? key : {}) as Record<string, unknown>;
+    return this.primaryKey.map((column) => {
+      if (values[column] === undefined) {
+        throw new Error(
+          `Missing primary key column "${column}" for table "${this.tableName}"`
+        );
+      }
+      return [column, values[column] as TModel[keyof TModel & string]];
+    });
+  }
+
+  /**
+   * Build the ON CONFLICT clause of an insert
+   *
+   * @param onConflict - Conflict behaviour
+   * @param insertedKeys - camelCase keys of the inserted columns
+   * @param values - Query parameters, merge values are appended
+   */
+  private buildOnConflictClause(
+    onConflict: OnConflict<TModel, TAutoFields>,
+    insertedKeys: string[],
+    values: unknown[]
+  ): string {
+    const target = onConflict.target;
+    let clause = "ON CONFLICT";
+
+    if (target && "constraint" in target) {
+      clause += ` ON CONSTRAINT "${target.constraint}"`;
+    } else if (target) {
+      if (target.length === 0) {
+        throw new Error("onConflict target requires at least one column");
+      }
+      clause += ` (${target
+        .map((col) => `"${camelToSnake(col)}"`)
+        .join(", ")})`;
+    }
+
+    if ("doNothing" in onConflict) {
+      return `${clause} DO NOTHING`;
+    }
+
+    const merge = onConflict.merge;
+    const setClauses: string[] = [];
+
+    if (merge === "all" || Array.isArray(merge)) {
+      const targetColumns =
+        target && !("constraint" in target) ? (target as string[]) : [];
+      const mergeKeys =
+        merge === "all"
+          ? insertedKeys.filter((key) => !targetColumns.includes(key))
+          : merge;
+
+      for (const key of mergeKeys) {
+        const column = camelToSnake(key);
+        setClauses.push(`"${column}" = EXCLUDED."${column}"`);
+      }
+    } else {
+      for (const [key, value] of Object.entries(
+        merge as Record<string, unknown>
+      )) {
+        if (value instanceof RawExpression) {
+          setClauses.push(`"${camelToSnake(key)}" = ${value.sql}`);
+        } else {
+          values.push(
+            encodeColumnValue(this.tableName, camelToSnake(key), value)
+          );
+          setClauses.push(`"${camelToSnake(key)}" = $${values.length}`);
+        }
+      }
+    }
+
+    if (setClauses.length === 0) {
+      throw new Error("No valid fields to merge on conflict");
+    }
+
+    // Add updatedAt automatically on tables that have it
+    if (this.hasUpdatedAt) {
+      setClauses.push(`"updated_at" = CURRENT_TIMESTAMP`);
+    }
+
+    return `${clause} DO UPDATE SET ${setClauses.join(", ")}`;
+  }
+
+  /**
+   * Decode a database row and transform it from snake_case to camelCase
    */
   private transformRow(row: Record<string, unknown>): Record<string, unknown> {
     const transformed: Record<string, unknown> = {};
 
-    for (const [key, value] of Object.entries(row)) {
+    for (const [key, value] of Object.entries(decodeRow(this.tableName, row))) {
       const camelKey = key.replace(/_([a-z])/g, (_, letter) =>
         letter.toUpperCase()
       );
@@ -364,6 +685,8 @@ export class UpdateBuilder<TModel extends object> {
   private tableName: string;
   private data: Record<string, unknown>;
   private autoFields: Set<string>;
+  private executor: Queryable | null;
+  private hasUpdatedAt: boolean;
   private whereConditions: Array<{
     column: string;
     value: unknown;
@@ -372,11 +695,15 @@ export class UpdateBuilder<TModel extends object> {
   constructor(
     tableName: string,
     data: Record<string, unknown>,
-    autoFields: Set<string>
+    autoFields: Set<string>,
+    executor?: Queryable | null,
+    hasUpdatedAt: boolean = true
   ) {
     this.tableName = tableName;
     this.data = data;
     this.autoFields = autoFields;
+    this.executor = executor ?? null;
+    this.hasUpdatedAt = hasUpdatedAt;
   }
 
   /**
@@ -401,7 +728,7 @@ export class UpdateBuilder<TModel extends object> {
       );
     }
 
-    const adapter = getDbAdapter();
+    const adapter = this.executor ?? getDbAdapter();
 
     // Build SET clause
     const entries = Object.entries(this.data).filter(
@@ -416,25 +743,25 @@ export class UpdateBuilder<TModel extends object> {
     const values: unknown[] = [];
 
     entries.forEach(([key, value], index) => {
-      setClauses.push(
-        `"${key.replace(/[A-Z]/g, (l) => `_${l.toLowerCase()}`)}" = $${
-          index + 1
-        }`
-      );
-      values.push(value);
+      const column = key.replace(/[A-Z]/g, (l) => `_${l.toLowerCase()}`);
+      setClauses.push(`"${column}" = $${index + 1}`);
+      values.push(encodeColumnValue(this.tableName, column, value));
     });
 
-    // Add updatedAt automatically
-    setClauses.push(`"updated_at" = CURRENT_TIMESTAMP`);
+    // Add updatedAt automatically on tables that have it
+    if (this.hasUpdatedAt) {
+      setClauses.push(`"updated_at" = CURRENT_TIMESTAMP`);
+    }
 
     // Build WHERE clause
     const whereClauses = this.whereConditions.map((cond, index) => {
       const paramIndex = entries.length + index + 1;
-      values.push(cond.value);
-      return `"${cond.column.replace(
+      const column = cond.column.replace(
         /[A-Z]/g,
         (l) => `_${l.toLowerCase()}`
-      )}" = $${paramIndex}`;
+      );
+      values.push(encodeColumnValue(this.tableName, column, cond.value));
+      return `"${column}" = $${paramIndex}`;
     });
 
     const sql = `
@@ -444,13 +771,16 @@ export class UpdateBuilder<TModel extends object> {
       RETURNING *
     `;
 
-    const result = await adapter.query(sql, values);
+    const origin = { table: this.tableName, operation: "update" as const };
+    const result = await withQueryOrigin(origin, () =>
+      adapter.query(sql, values)
+    );
     return result.rows.map((row) => this.transformRow(row) as TModel);
   }
 
   private transformRow(row: Record<string, unknown>): Record<string, unknown> {
     const transformed: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(row)) {
+    for (const [key, value] of Object.entries(decodeRow(this.tableName, row))) {
       const camelKey = key.replace(/_([a-z])/g, (_, letter) =>
         letter.toUpperCase()
       );
@@ -469,13 +799,15 @@ export class UpdateBuilder<TModel extends object> {
  */
 export class DeleteBuilder<TModel extends object> {
   private tableName: string;
+  private executor: Queryable | null;
   private whereConditions: Array<{
     column: string;
     value: unknown;
   }> = [];
 
-  constructor(tableName: string) {
+  constructor(tableName: string, executor?: Queryable | null) {
     this.tableName = tableName;
+    this.executor = executor ?? null;
   }
 
   /**
@@ -500,15 +832,16 @@ export class DeleteBuilder<TModel extends object> {
       );
     }
 
-    const adapter = getDbAdapter();
+    const adapter = this.executor ?? getDbAdapter();
     const values: unknown[] = [];
 
     const whereClauses = this.whereConditions.map((cond, index) => {
-      values.push(cond.value);
-      return `"${cond.column.replace(
+      const column = cond.column.replace(
         /[A-Z]/g,
         (l) => `_${l.toLowerCase()}`
-      )}" = $${index + 1}`;
+      );
+      values.push(encodeColumnValue(this.tableName, column, cond.value));
+      return `"${column}" = $${index + 1}`;
     });
 
     const sql = `
@@ -516,7 +849,10 @@ export class DeleteBuilder<TModel extends object> {
       WHERE ${whereClauses.join(" AND ")}
     `;
 
-    const result = await adapter.query(sql, values);
+    const origin = { table: this.tableName, operation: "delete" as const };
+    const result = await withQueryOrigin(origin, () =>
+      adapter.query(sql, values)
+    );
     return result.rowCount || 0;
   }
 }
@@ -0,0 +1,61 @@
+/**
+ * IblalORM Transaction Context
+ *
+ * Opt-in ambient transactions: while enabled, transaction() stores its
+ * TransactionClient in an AsyncLocalStorage so DbAdapter.query (and with
+ * it every table accessor and query builder) runs on the active
+ * transaction without passing the client around.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { TransactionClient } from "./TransactionManager";
+
+const storage = new AsyncLocalStorage<TransactionClient>();
+let ambientEnabled = false;
+
+/**
+ * Turn ambient transaction propagation on (or off)
+ *
+ * @example
+ * enableAmbientTransactions();
+ *
+ * await transaction(async () => {
+ *   const user = await db.user.insert({ ... }); // runs in the transaction
+ *   await createWelcomePost(user);              // so do its queries
+ * });
+ */
+export function enableAmbientTransactions(enabled: boolean = true): void {
+  ambientEnabled = enabled;
+}
+
+/**
+ * The transaction of the current async context, if any
+ */
+export function getActiveTransaction(): TransactionClient | undefined {
+  return ambientEnabled ? storage.getStore() : undefined;
+}
+
+/**
+ * Run a callback with the given transaction as the active one
+ */
+export function runInTransaction<T>(
+  trx: TransactionClient,
+  callback: () => T
+): T {
+  return ambientEnabled ? storage.run(trx, callback) : callback();
+}
+
+/**
+ * Run a callback outside the active transaction
+ *
+ * Queries issued by the callback use pooled connections again, e.g. to
+ * write an audit record that must survive a rollback.
+ *
+ * @example
+ * await transaction(async () => {
+ *   await withoutTransaction(() => db.auditLog.insert({ ... }));
+ * });
+ */
+export function withoutTransaction<T>(callback: () => T): T {
+  return storage.exit(callback);
+}
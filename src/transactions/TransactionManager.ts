@@ -6,7 +6,21 @@
  */
 
 import { PoolClient } from "pg";
-import { getDbAdapter } from "../db/DbAdapter";
+import { DbAdapter, getDbAdapter, Queryable } from "../db/DbAdapter";
+import { toDatabaseError } from "../db/DatabaseError";
+import { instrumentQuery } from "../db/QueryEvents";
+import { getActiveTransaction, runInTransaction } from "./TransactionContext";
+
+export {
+  enableAmbientTransactions,
+  getActiveTransaction,
+  withoutTransaction,
+} from "./TransactionContext";
+
+/**
+ * Callback registered with afterCommit()/afterRollback()
+ */
+export type TransactionHook = () => void | Promise<void>;
 
 /**
  * Transaction client interface
@@ -14,12 +28,24 @@ import { getDbAdapter } from "../db/DbAdapter";
  * Provides the same query interface as DbAdapter but uses
  * a dedicated client for transaction isolation.
  */
-export class TransactionClient {
+export class TransactionClient implements Queryable {
   private client: PoolClient;
   private isCompleted: boolean = false;
+  private savepointCounter: number = 0;
+  private afterCommitHooks: TransactionHook[] = [];
+  private afterRollbackHooks: TransactionHook[] = [];
+  /** Hooks of the completed transaction, run once the client is released */
+  private completionHooks: {
+    kind: "afterCommit" | "afterRollback";
+    hooks: TransactionHook[];
+  } | null = null;
+
+  /** The adapter whose pool the client came from */
+  readonly adapter: DbAdapter | null;
 
-  constructor(client: PoolClient) {
+  constructor(client: PoolClient, adapter: DbAdapter | null = null) {
     this.client = client;
+    this.adapter = adapter;
   }
 
   /**
@@ -33,42 +59,218 @@ export class TransactionClient {
       throw new Error("Transaction has already been completed");
     }
 
-    const result = await this.client.query(sql, params);
-    return {
-      rows: result.rows as T[],
-      rowCount: result.rowCount,
-    };
+    const active = getActiveTransaction();
+    if (active && active !== this && active.adapter === this.adapter) {
+      throw new Error(
+        "Query issued on a transaction other than the active one; " +
+          "use withoutTransaction() to leave the active transaction first"
+      );
+    }
+
+    // Keep the full pg result so DbAdapter can route through this client
+    const result = await this.run(sql, params, "Database query failed");
+    return { ...result, rows: result.rows as T[] };
+  }
+
+  /**
+   * Start the transaction
+   *
+   * @param statements - BEGIN followed by any SET LOCAL statements
+   */
+  async begin(statements: string[] = ["BEGIN"]): Promise<void> {
+    for (const sql of statements) {
+      await this.run(sql, undefined, "Failed to start transaction");
+    }
   }
 
   /**
    * Commit the transaction
+   * afterCommit hooks run once the client is released
    */
   async commit(): Promise<void> {
     if (this.isCompleted) {
       throw new Error("Transaction has already been completed");
     }
 
-    await this.client.query("COMMIT");
+    await this.run("COMMIT", undefined, "Transaction commit failed");
     this.isCompleted = true;
+    this.adapter?.recordWrite();
+    this.afterRollbackHooks = [];
+    this.completionHooks = {
+      kind: "afterCommit",
+      hooks: this.afterCommitHooks.splice(0),
+    };
   }
 
   /**
    * Rollback the transaction
+   * afterRollback hooks run once the client is released
    */
   async rollback(): Promise<void> {
     if (this.isCompleted) {
       return; // Already completed, nothing to rollback
     }
 
-    await this.client.query("ROLLBACK");
+    await this.run("ROLLBACK", undefined, "Transaction rollback failed");
     this.isCompleted = true;
+    this.afterCommitHooks = [];
+    this.completionHooks = {
+      kind: "afterRollback",
+      hooks: this.afterRollbackHooks.splice(0),
+    };
   }
 
   /**
-   * Release the client back to the pool
+   * Register a callback to run once the transaction has committed
+   *
+   * Hooks run in registration order once the client is back in the pool,
+   * so slow hooks don't hold a connection; a failing hook is logged and
+   * does not affect the transaction result or the other hooks. Hooks
+   * registered inside a nested transaction that rolls back are dropped.
+   *
+   * @example
+   * await transaction(async (trx) => {
+   *   const user = await trx.query("INSERT INTO users ... RETURNING *");
+   *   trx.afterCommit(() => sendWelcomeEmail(user.rows[0]));
+   * });
    */
-  release(): void {
+  afterCommit(hook: TransactionHook): void {
+    if (this.isCompleted) {
+      throw new Error("Transaction has already been completed");
+    }
+    this.afterCommitHooks.push(hook);
+  }
+
+  /**
+   * Register a callback to run once the transaction has rolled back
+   *
+   * Inside a nested transaction, the hook runs when that savepoint is
+   * rolled back.
+   */
+  afterRollback(hook: TransactionHook): void {
+    if (this.isCompleted) {
+      throw new Error("Transaction has already been completed");
+    }
+    this.afterRollbackHooks.push(hook);
+  }
+
+  /**
+   * Run a callback in a nested transaction using a SAVEPOINT
+   *
+   * The savepoint is released if the callback succeeds and rolled back
+   * if it throws, leaving the outer transaction usable. The callback
+   * receives this same client.
+   *
+   * @example
+   * await transaction(async (trx) => {
+   *   await trx.query("INSERT INTO users ...");
+   *   await trx.transaction(async (nested) => {
+   *     await nested.query("INSERT INTO audit_log ...");
+   *   }).catch(() => {
+   *     // only the audit insert is undone
+   *   });
+   * });
+   */
+  async transaction<T>(
+    callback: (trx: TransactionClient) => Promise<T>
+  ): Promise<T> {
+    const name = await this.savepoint();
+    const commitHookCount = this.afterCommitHooks.length;
+    const rollbackHookCount = this.afterRollbackHooks.length;
+
+    try {
+      const result = await callback(this);
+      await this.releaseSavepoint(name);
+      return result;
+    } catch (error) {
+      if (this.isActive) {
+        await this.rollbackTo(name);
+        await this.releaseSavepoint(name);
+
+        // Hooks registered inside the savepoint follow its outcome
+        this.afterCommitHooks.splice(commitHookCount);
+        await runHooks(
+          "afterRollback",
+          this.afterRollbackHooks.splice(rollbackHookCount)
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a savepoint
+   *
+   * @param name - Savepoint name (generated when omitted)
+   * @returns The savepoint name, for rollbackTo()/releaseSavepoint()
+   */
+  async savepoint(name?: string): Promise<string> {
+    const savepointName = name ?? `iblal_sp_${++this.savepointCounter}`;
+    await this.query(`SAVEPOINT ${this.quoteSavepoint(savepointName)}`);
+    return savepointName;
+  }
+
+  /**
+   * Roll back to a savepoint, undoing everything done after it
+   */
+  async rollbackTo(name: string): Promise<void> {
+    await this.query(`ROLLBACK TO SAVEPOINT ${this.quoteSavepoint(name)}`);
+  }
+
+  /**
+   * Release a savepoint, keeping its changes in the transaction
+   * (named releaseSavepoint since release() returns the client to the pool)
+   */
+  async releaseSavepoint(name: string): Promise<void> {
+    await this.query(`RELEASE SAVEPOINT ${this.quoteSavepoint(name)}`);
+  }
+
+  /**
+   * Run a statement on the client, emitting the adapter's query events
+   * and mapping failures to DatabaseErrors
+   */
+  private run(sql: string, params: unknown[] | undefined, failure: string) {
+    const hooks = this.adapter?.getQueryHooks() ?? [];
+
+    return instrumentQuery(
+      hooks,
+      sql,
+      params ?? [],
+      "transaction",
+      async () => {
+        try {
+          return params
+            ? await this.client.query(sql, params)
+            : await this.client.query(sql);
+        } catch (error) {
+          throw toDatabaseError(error, failure, sql, params);
+        }
+      }
+    );
+  }
+
+  /**
+   * Validate and quote a savepoint name
+   */
+  private quoteSavepoint(name: string): string {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid savepoint name: ${name}`);
+    }
+    return `"${name}"`;
+  }
+
+  /**
+   * Release the client back to the pool, then run the afterCommit or
+   * afterRollback hooks of the completed transaction
+   */
+  async release(): Promise<void> {
     this.client.release();
+
+    const completed = this.completionHooks;
+    this.completionHooks = null;
+    if (completed) {
+      await runHooks(completed.kind, completed.hooks);
+    }
   }
 
   /**
@@ -81,8 +283,71 @@ export class TransactionClient {
 
 /**
  * Transaction callback type
+ * attempt is 1 for the first run and increases with each retry
+ */
+export type TransactionCallback<T> = (
+  trx: TransactionClient,
+  attempt: number
+) => Promise<T>;
+
+/**
+ * Transaction isolation levels
+ */
+export type IsolationLevel =
+  | "READ UNCOMMITTED"
+  | "READ COMMITTED"
+  | "REPEATABLE READ"
+  | "SERIALIZABLE";
+
+/**
+ * Retry policy for transactions that fail with a transient error
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default 50) */
+  baseDelayMs?: number;
+  /** Upper bound of a single delay in milliseconds (default 1000) */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the backoff (default true) */
+  jitter?: boolean;
+  /** SQLSTATE codes that trigger a retry (default serialization failure and deadlock) */
+  retryableCodes?: string[];
+}
+
+/**
+ * Timeout for SET LOCAL: milliseconds, or a PostgreSQL duration ("5s", "1min")
  */
-export type TransactionCallback<T> = (trx: TransactionClient) => Promise<T>;
+export type TransactionTimeout = number | string;
+
+/**
+ * Options for transaction()
+ */
+export interface TransactionOptions {
+  /** Adapter to run the transaction on (default: the shared adapter) */
+  adapter?: DbAdapter;
+  isolationLevel?: IsolationLevel;
+  /** READ ONLY when true, READ WRITE when false (server default when omitted) */
+  readOnly?: boolean;
+  /** DEFERRABLE (only effective for SERIALIZABLE READ ONLY transactions) */
+  deferrable?: boolean;
+  /** SET LOCAL statement_timeout */
+  statementTimeout?: TransactionTimeout;
+  /** SET LOCAL lock_timeout */
+  lockTimeout?: TransactionTimeout;
+  /** SET LOCAL idle_in_transaction_session_timeout */
+  idleInTransactionSessionTimeout?: TransactionTimeout;
+  /** Additional SET LOCAL variables, e.g. { "app.user_id": 42 } */
+  settings?: Record<string, string | number | boolean>;
+  /** Re-run the callback on serialization failures/deadlocks (true = defaults) */
+  retry?: RetryPolicy | boolean;
+}
+
+/**
+ * SQLSTATE codes retried by default:
+ * 40001 serialization_failure, 40P01 deadlock_detected
+ */
+export const DEFAULT_RETRYABLE_CODES = ["40001", "40P01"];
 
 /**
  * Execute a function within a database transaction
@@ -91,7 +356,18 @@ export type TransactionCallback<T> = (trx: TransactionClient) => Promise<T>;
  * - COMMIT if the callback succeeds
  * - ROLLBACK if the callback throws an error
  *
+ * With ambient transactions enabled, the transaction is active for
+ * everything the callback awaits, and calling transaction() inside it
+ * nests using a SAVEPOINT.
+ *
+ * With a retry policy, a callback failing with a retryable SQLSTATE
+ * (including at COMMIT) is rolled back and run again on a fresh
+ * transaction after an exponential backoff.
+ *
  * @param callback - Async function that receives a TransactionClient
+ *   and the attempt number
+ * @param options - Isolation level, access mode, timeouts, SET LOCAL
+ *   settings and retry policy
  * @returns The result of the callback function
  *
  * @example
@@ -100,65 +376,87 @@ export type TransactionCallback<T> = (trx: TransactionClient) => Promise<T>;
  *   await trx.query('INSERT INTO profiles (user_id) VALUES ($1)', [1]);
  *   return { success: true };
  * });
+ *
+ * @example
+ * await transaction(
+ *   async (trx, attempt) => { ... },
+ *   { isolationLevel: "SERIALIZABLE", retry: { maxAttempts: 5 } }
+ * );
+ *
+ * @example
+ * await transaction(async (trx) => { ... }, {
+ *   isolationLevel: "REPEATABLE READ",
+ *   readOnly: true,
+ *   statementTimeout: "30s",
+ *   settings: { "app.tenant_id": tenantId },
+ * });
  */
 export async function transaction<T>(
-  callback: TransactionCallback<T>
+  callback: TransactionCallback<T>,
+  options: TransactionOptions = {}
 ): Promise<T> {
-  const adapter = getDbAdapter();
-  const client = await adapter.getClient();
-  const trx = new TransactionClient(client);
+  const { adapter = getDbAdapter(), ...modes } = options;
 
-  try {
-    // Start transaction
-    await client.query("BEGIN");
-
-    // Execute the callback
-    const result = await callback(trx);
+  // Inside an ambient transaction on the same adapter, nest using a SAVEPOINT
+  const active = getActiveTransaction();
+  if (active && active.adapter === adapter) {
+    if (Object.values(modes).some((value) => value !== undefined)) {
+      throw new Error(
+        "Transaction options cannot be set on a nested transaction"
+      );
+    }
+    return active.transaction((trx) => callback(trx, 1));
+  }
 
-    // Commit if successful
-    await trx.commit();
+  const policy = resolveRetryPolicy(options.retry);
+  const setup = [buildBegin(options), ...buildLocalSettings(options)];
 
-    return result;
-  } catch (error) {
-    // Rollback on any error
-    await trx.rollback();
-    throw error;
-  } finally {
-    // Always release the client back to the pool
-    trx.release();
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runTransaction(adapter, setup, callback, attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryable(error, policy)) {
+        throw error;
+      }
+      await sleep(retryDelay(attempt, policy));
+    }
   }
 }
 
-/**
- * Transaction isolation levels
- */
-export type IsolationLevel =
-  | "READ UNCOMMITTED"
-  | "READ COMMITTED"
-  | "REPEATABLE READ"
-  | "SERIALIZABLE";
-
 /**
  * Execute a function within a transaction with specific isolation level
  *
  * @param isolationLevel - The transaction isolation level
  * @param callback - Async function that receives a TransactionClient
+ * @param options - Other transaction options
  * @returns The result of the callback function
  */
 export async function transactionWithIsolation<T>(
   isolationLevel: IsolationLevel,
-  callback: TransactionCallback<T>
+  callback: TransactionCallback<T>,
+  options: Omit<TransactionOptions, "isolationLevel"> = {}
+): Promise<T> {
+  return transaction(callback, { ...options, isolationLevel });
+}
+
+/**
+ * Run a single transaction attempt on a dedicated client
+ */
+async function runTransaction<T>(
+  adapter: DbAdapter,
+  setup: string[],
+  callback: TransactionCallback<T>,
+  attempt: number
 ): Promise<T> {
-  const adapter = getDbAdapter();
   const client = await adapter.getClient();
-  const trx = new TransactionClient(client);
+  const trx = new TransactionClient(client, adapter);
 
   try {
-    // Start transaction with isolation level
-    await client.query(`BEGIN ISOLATION LEVEL ${isolationLevel}`);
+    // Start transaction and apply its SET LOCAL settings
+    await trx.begin(setup);
 
     // Execute the callback
-    const result = await callback(trx);
+    const result = await runInTransaction(trx, () => callback(trx, attempt));
 
     // Commit if successful
     await trx.commit();
@@ -169,7 +467,124 @@ export async function transactionWithIsolation<T>(
     await trx.rollback();
     throw error;
   } finally {
-    // Always release the client back to the pool
-    trx.release();
+    // Always release the client back to the pool (before running hooks)
+    await trx.release();
+  }
+}
+
+/**
+ * Run transaction hooks in order, isolating their failures
+ */
+async function runHooks(
+  kind: "afterCommit" | "afterRollback",
+  hooks: TransactionHook[]
+): Promise<void> {
+  for (const hook of hooks) {
+    try {
+      await hook();
+    } catch (error) {
+      console.error(`${kind} hook failed:`, error);
+    }
+  }
+}
+
+/**
+ * Build the BEGIN statement with the requested transaction modes
+ */
+function buildBegin(options: TransactionOptions): string {
+  const modes: string[] = [];
+
+  if (options.isolationLevel) {
+    modes.push(`ISOLATION LEVEL ${options.isolationLevel}`);
+  }
+  if (options.readOnly !== undefined) {
+    modes.push(options.readOnly ? "READ ONLY" : "READ WRITE");
+  }
+  if (options.deferrable !== undefined) {
+    modes.push(options.deferrable ? "DEFERRABLE" : "NOT DEFERRABLE");
+  }
+
+  return modes.length > 0 ? `BEGIN ${modes.join(", ")}` : "BEGIN";
+}
+
+/**
+ * Build the SET LOCAL statements for timeouts and custom settings
+ *
+ * SET does not accept bind parameters, so names are validated and
+ * values are rendered as quoted literals.
+ */
+function buildLocalSettings(options: TransactionOptions): string[] {
+  const settings: Record<string, string | number | boolean> = {};
+
+  const timeouts: Array<[string, TransactionTimeout | undefined]> = [
+    ["statement_timeout", options.statementTimeout],
+    ["lock_timeout", options.lockTimeout],
+    [
+      "idle_in_transaction_session_timeout",
+      options.idleInTransactionSessionTimeout,
+    ],
+  ];
+  for (const [name, timeout] of timeouts) {
+    if (timeout === undefined) continue;
+    if (
+      typeof timeout === "number" &&
+      (!Number.isInteger(timeout) || timeout < 0)
+    ) {
+      throw new Error(`Invalid ${name}: ${timeout}`);
+    }
+    settings[name] = timeout;
   }
+
+  Object.assign(settings, options.settings);
+
+  return Object.entries(settings).map(([name, value]) => {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(name)) {
+      throw new Error(`Invalid setting name: ${name}`);
+    }
+    const literal = String(value).replace(/'/g, "''");
+    return `SET LOCAL ${name} = '${literal}'`;
+  });
+}
+
+/**
+ * Fill in the defaults of a retry policy
+ * No policy means a single attempt
+ */
+function resolveRetryPolicy(
+  retry: RetryPolicy | boolean | undefined
+): Required<RetryPolicy> {
+  const policy = typeof retry === "object" ? retry : {};
+  return {
+    maxAttempts: retry ? policy.maxAttempts ?? 3 : 1,
+    baseDelayMs: policy.baseDelayMs ?? 50,
+    maxDelayMs: policy.maxDelayMs ?? 1000,
+    jitter: policy.jitter ?? true,
+    retryableCodes: policy.retryableCodes ?? DEFAULT_RETRYABLE_CODES,
+  };
+}
+
+/**
+ * Check whether an error carries a retryable SQLSTATE
+ */
+function isRetryable(error: unknown, policy: Required<RetryPolicy>): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && policy.retryableCodes.includes(code);
+}
+
+/**
+ * Exponential backoff before the next attempt, optionally with full jitter
+ */
+function retryDelay(attempt: number, policy: Required<RetryPolicy>): number {
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,105 @@
+/**
+ * IblalORM Introspection Unit Tests
+ *
+ * Tests for the types generated from introspected schema rows.
+ */
+
+import {
+  ColumnInfo,
+  generateModelsFile,
+  processEnums,
+  processSchemaData,
+} from "../../src/cli/introspect";
+
+// Mock the DbAdapter
+jest.mock("../../src/db/DbAdapter", () => ({
+  getDbAdapter: jest.fn(),
+}));
+
+/**
+ * Build an information_schema.columns row
+ */
+function column(
+  columnName: string,
+  dataType: string,
+  udtName: string,
+  overrides: Partial<ColumnInfo> = {}
+): ColumnInfo {
+  return {
+    table_name: "posts",
+    column_name: columnName,
+    data_type: dataType,
+    udt_name: udtName,
+    domain_name: null,
+    array_dimensions: 0,
+    column_comment: null,
+    is_nullable: "NO",
+    column_default: null,
+    ordinal_position: 0,
+    ...overrides,
+  };
+}
+
+const enums = processEnums([
+  { enum_name: "post_status", enum_value: "draft" },
+  { enum_name: "post_status", enum_value: "published" },
+  { enum_name: "post_status", enum_value: "it's archived" },
+  { enum_name: "visibility", enum_value: "public" },
+]);
+
+describe("introspect", () => {
+  describe("enums", () => {
+    it("should group labels by enum in declaration order", () => {
+      expect(enums).toEqual([
+        {
+          enumName: "post_status",
+          typeName: "PostStatus",
+          values: ["draft", "published", "it's archived"],
+        },
+        { enumName: "visibility", typeName: "Visibility", values: ["public"] },
+      ]);
+    });
+
+    it("should generate a union type and value list per enum", () => {
+      const code = generateModelsFile([], enums);
+
+      expect(code).toContain(
+        `export type PostStatus = "draft" | "published" | "it's archived";`
+      );
+      expect(code).toContain(
+        `export const postStatusValues: readonly PostStatus[] = ["draft", "published", "it's archived"];`
+      );
+      expect(code).toContain(`export type Visibility = "public";`);
+    });
+
+    it("should type enum, nullable enum and enum array columns", () => {
+      const tables = processSchemaData(
+        [
+          column("id", "integer", "int4"),
+          column("status", "USER-DEFINED", "post_status"),
+          column("visibility", "USER-DEFINED", "visibility", {
+            is_nullable: "YES",
+          }),
+          column("previous_statuses", "ARRAY", "_post_status", {
+            array_dimensions: 1,
+          }),
+          column("status_history", "ARRAY", "_post_status", {
+            array_dimensions: 2,
+            is_nullable: "YES",
+          }),
+        ],
+        enums
+      );
+      const code = generateModelsFile(tables, enums);
+
+      expect(code).toContain("  status: PostStatus;");
+      expect(code).toContain("  visibility: Visibility | null;");
+      expect(code).toContain("  previousStatuses: PostStatus[];");
+      expect(code).toContain("  statusHistory: PostStatus[][] | null;");
+      // pg returns enum arrays as text, so they are decoded at runtime
+      expect(code).toContain(
+        'posts: { previous_statuses: "string[]", status_history: "string[][]" }'
+      );
+    });
+  });
+});
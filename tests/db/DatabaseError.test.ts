@@ -0,0 +1,168 @@
+/**
+ * IblalORM DatabaseError Unit Tests
+ *
+ * Tests for mapping pg errors to typed errors by SQLSTATE.
+ */
+
+import {
+  CheckError,
+  ConnectionError,
+  DatabaseError,
+  ForeignKeyError,
+  NotNullError,
+  QueryTimeoutError,
+  SerializationError,
+  UniqueConstraintError,
+  configureErrorRedaction,
+  toDatabaseError,
+} from "../../src/db/DatabaseError";
+
+/**
+ * Build an error shaped like the ones thrown by pg
+ */
+function pgError(message: string, fields: Record<string, string>): Error {
+  return Object.assign(new Error(message), fields);
+}
+
+describe("toDatabaseError()", () => {
+  afterEach(() => {
+    configureErrorRedaction({});
+  });
+
+  it.each([
+    ["23505", UniqueConstraintError],
+    ["23503", ForeignKeyError],
+    ["23502", NotNullError],
+    ["23514", CheckError],
+    ["40001", SerializationError],
+    ["40P01", SerializationError],
+    ["57014", QueryTimeoutError],
+    ["55P03", QueryTimeoutError],
+    ["08006", ConnectionError],
+    ["57P01", ConnectionError],
+    ["ECONNREFUSED", ConnectionError],
+    ["42P01", DatabaseError],
+  ])("should map %s to %p", (code, ErrorClass) => {
+    const error = toDatabaseError(
+      pgError("failed", { code }),
+      "Database query failed"
+    );
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(DatabaseError);
+    expect(error.name).toBe(ErrorClass.name);
+    expect(error.code).toBe(code);
+  });
+
+  it("should carry constraint, camelCase columns, SQL and params", () => {
+    const cause = pgError(
+      'duplicate key value violates unique constraint "post_categories_pkey"',
+      {
+        code: "23505",
+        constraint: "post_categories_pkey",
+        table: "post_categories",
+        detail: "Key (post_id, category_id)=(1, 2) already exists.",
+      }
+    );
+
+    const error = toDatabaseError(
+      cause,
+      "Database query failed",
+      "INSERT INTO post_categories ...",
+      [1, 2]
+    );
+
+    expect(error.message).toBe(
+      'Database query failed: duplicate key value violates unique constraint "post_categories_pkey"'
+    );
+    expect(error.constraint).toBe("post_categories_pkey");
+    expect(error.table).toBe("post_categories");
+    expect(error.column).toBe("postId");
+    expect(error.columns).toEqual(["postId", "categoryId"]);
+    expect(error.sql).toBe("INSERT INTO post_categories ...");
+    expect(error.params).toEqual([1, 2]);
+    expect(error.cause).toBe(cause);
+  });
+
+  it("should use pg's column field for not-null violations", () => {
+    const error = toDatabaseError(
+      pgError("null value in column", { code: "23502", column: "author_id" }),
+      "Database query failed"
+    );
+
+    expect(error.column).toBe("authorId");
+  });
+
+  it("should redact SQL, params and detail when configured", () => {
+    configureErrorRedaction({ sql: true, params: true });
+
+    const error = toDatabaseError(
+      pgError("duplicate key", {
+        code: "23505",
+        detail: "Key (email)=(a@example.com) already exists.",
+      }),
+      "Database query failed",
+      "INSERT INTO users ...",
+      ["a@example.com"]
+    );
+
+    expect(error.sql).toBe("[REDACTED]");
+    expect(error.params).toBe("[REDACTED]");
+    expect(error.detail).toBeUndefined();
+    expect(error.column).toBe("email");
+  });
+
+  it.each([
+    [
+      'invalid input syntax for type integer: "4111 1111"',
+      "invalid input syntax for type integer: [REDACTED]",
+    ],
+    [
+      'value "99999999999" is out of range for type integer',
+      "value [REDACTED] is out of range for type integer",
+    ],
+    [
+      'duplicate key value violates unique constraint "users_email_key"',
+      'duplicate key value violates unique constraint "users_email_key"',
+    ],
+  ])("should redact values in the message %p", (message, redacted) => {
+    configureErrorRedaction({ params: true });
+
+    const error = toDatabaseError(
+      pgError(message, { code: "22P02" }),
+      "Database query failed"
+    );
+
+    expect(error.message).toBe(`Database query failed: ${redacted}`);
+  });
+
+  it("should keep the message when params are not redacted", () => {
+    configureErrorRedaction({ sql: true });
+
+    const error = toDatabaseError(
+      pgError('invalid input syntax for type integer: "abc"', {
+        code: "22P02",
+      }),
+      "Database query failed"
+    );
+
+    expect(error.message).toBe(
+      'Database query failed: invalid input syntax for type integer: "abc"'
+    );
+  });
+
+  it("should map terminated connections without a code", () => {
+    const error = toDatabaseError(
+      new Error("Connection terminated unexpectedly"),
+      "Database query failed"
+    );
+
+    expect(error).toBeInstanceOf(ConnectionError);
+  });
+
+  it("should return DatabaseErrors unchanged", () => {
+    const original = new CheckError("Database query failed: check");
+
+    expect(toDatabaseError(original, "Other prefix")).toBe(original);
+  });
+});
@@ -24,6 +24,7 @@ jest.mock("pg", () => {
       waitingCount: 0,
       end: mockEnd,
     })),
+    types: jest.requireActual("pg").types,
   };
 });
 
@@ -116,6 +117,68 @@ describe("DbAdapter", () => {
       );
     });
 
+    it("should throw typed errors with the SQLSTATE details", async () => {
+      const { DbAdapter } = require("../../src/db/DbAdapter");
+      const { UniqueConstraintError } = require("../../src/db/DatabaseError");
+      mockQuery.mockRejectedValueOnce(
+        Object.assign(new Error("duplicate key value"), {
+          code: "23505",
+          constraint: "users_email_key",
+          detail: "Key (email)=(a@example.com) already exists.",
+        })
+      );
+
+      const adapter = DbAdapter.getInstance();
+      const error = await adapter
+        .query("INSERT INTO users (email) VALUES ($1)", ["a@example.com"])
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error).toMatchObject({
+        message: "Database query failed: duplicate key value",
+        code: "23505",
+        constraint: "users_email_key",
+        column: "email",
+        sql: "INSERT INTO users (email) VALUES ($1)",
+        params: ["a@example.com"],
+      });
+    });
+
+    it("should emit query hooks until they are removed", async () => {
+      const { DbAdapter } = require("../../src/db/DbAdapter");
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 2 })
+        .mockRejectedValueOnce(new Error("boom"))
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      const adapter = DbAdapter.getInstance();
+      const hooks = { afterQuery: jest.fn(), onError: jest.fn() };
+      const remove = adapter.addQueryHooks(hooks);
+
+      await adapter.query("UPDATE users SET x = $1", [1]);
+      await expect(adapter.query("SELECT 1")).rejects.toThrow();
+      remove();
+      await adapter.query("SELECT 2");
+
+      expect(hooks.afterQuery).toHaveBeenCalledTimes(1);
+      expect(hooks.afterQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sql: "UPDATE users SET x = $1",
+          params: [1],
+          target: "primary",
+          rowCount: 2,
+        })
+      );
+      expect(hooks.onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sql: "SELECT 1",
+          error: expect.objectContaining({
+            message: "Database query failed: boom",
+          }),
+        })
+      );
+    });
+
     it("should handle unknown errors", async () => {
       const { DbAdapter } = require("../../src/db/DbAdapter");
       mockQuery.mockRejectedValueOnce("Unknown error");
@@ -154,6 +217,10 @@ describe("DbAdapter", () => {
       await expect(adapter.getClient()).rejects.toThrow(
         "Failed to get database client: Pool exhausted"
       );
+      mockConnect.mockRejectedValueOnce(new Error("Pool exhausted"));
+      await expect(adapter.getClient()).rejects.toBeInstanceOf(
+        require("../../src/db/DatabaseError").ConnectionError
+      );
     });
   });
 
@@ -199,6 +266,145 @@ describe("DbAdapter", () => {
     });
   });
 
+  describe("constructor", () => {
+    it("should create independent adapters from explicit config", () => {
+      const { DbAdapter } = require("../../src/db/DbAdapter");
+      const { Pool } = require("pg");
+
+      const analytics = new DbAdapter({ host: "analytics", database: "a" });
+      const fromUrl = new DbAdapter("postgres://localhost/reports");
+
+      expect(analytics).not.toBe(DbAdapter.getInstance());
+      expect(Pool).toHaveBeenCalledWith({
+        types: expect.any(Object),
+        host: "analytics",
+        database: "a",
+      });
+      expect(Pool).toHaveBeenCalledWith({
+        types: expect.any(Object),
+        connectionString: "postgres://localhost/reports",
+      });
+      expect(fromUrl).toBeInstanceOf(DbAdapter);
+    });
+
+    it("should keep numeric[] elements as exact strings", () => {
+      const { DbAdapter } = require("../../src/db/DbAdapter");
+      const { Pool } = require("pg");
+
+      new DbAdapter({ host: "analytics" });
+      const { types } = Pool.mock.calls[0][0];
+
+      expect(types.getTypeParser(1231)("{1.10,NULL,9007199254740993}")).toEqual(
+        ["1.10", null, "9007199254740993"]
+      );
+      expect(types.getTypeParser(1700)("2.50")).toBe("2.50");
+      expect(types.getTypeParser(1007)("{1,2}")).toEqual([1, 2]);
+    });
+  });
+
+  describe("readQuery()", () => {
+    /**
+     * Pools whose query() reports which pool answered
+     */
+    function mockPools(busy: Record<string, number> = {}) {
+      const { Pool } = require("pg");
+      Pool.mockImplementation((config: { connectionString?: string }) => {
+        const name = config.connectionString ?? "primary";
+        return {
+          query: jest.fn().mockResolvedValue({ rows: [{ name }], rowCount: 1 }),
+          on: mockOn,
+          end: mockEnd,
+          totalCount: busy[name] ?? 0,
+          idleCount: 0,
+          waitingCount: 0,
+        };
+      });
+    }
+
+    async function answeredBy(
+      adapter: { readQuery: Function },
+      sql = "SELECT 1"
+    ) {
+      return (await adapter.readQuery(sql)).rows[0].name;
+    }
+
+    it("should rotate reads across replicas and keep writes on the primary", async () => {
+      mockPools();
+      const { DbAdapter } = require("../../src/db/DbAdapter");
+      const adapter = new DbAdapter(
+        { host: "primary" },
+        { replicas: ["replica-1", "replica-2"], stickyAfterWriteMs: 0 }
+      );
+
+      expect(await answeredBy(adapter)).toBe("replica-1");
+      expect(await answeredBy(adapter)).toBe("replica-2");
+      expect(await answeredBy(adapter)).toBe("replica-1");
+      expect((await adapter.query("UPDATE users SET x = 1")).rows[0].name).toBe(
+        "primary"
+      );
+    });
+
+    it("should read from the primary during the sticky window", async () => {
+      mockPools();
+      const { DbAdapter } = require("../../src/db/DbAdapter");
+      const adapter = new DbAdapter(
+        { host: "primary" },
+        { replicas: ["replica-1"], stickyAfterWriteMs: 60000 }
+      );
+
+      await adapter.query("SELECT 1");
+      expect(await answeredBy(adapter)).toBe("replica-1");
+
+      await adapter.query("INSERT INTO users (email) VALUES ($1)", ["a"]);
+      expect(await answeredBy(adapter)).toBe("primary");
+    });
+
+    it("should pick the least busy replica", async () => {
+      mockPools({ "replica-1": 5, "replica-2": 1 });
+      const { DbAdapter } = require("../../src/db/DbAdapter");
+      const adapter = new DbAdapter(
+        { host: "primary" },
+        { replicas: ["replica-1", "replica-2"], selection: "least-busy" }
+      );
+
+      expect(await answeredBy(adapter)).toBe("replica-2");
+      expect(adapter.getReplicaStats()).toEqual([
+        { totalCount: 5, idleCount: 0, waitingCount: 0 },
+        { totalCount: 1, idleCount: 0, waitingCount: 0 },
+      ]);
+    });
+
+    it("should use the primary without replicas", async () => {
+      mockPools();
+      const { DbAdapter } = require("../../src/db/DbAdapter");
+
+      expect(await answeredBy(new DbAdapter({ host: "primary" }))).toBe(
+        "primary"
+      );
+    });
+  });
+
+  describe("closeAll()", () => {
+    it("should close the shared adapter and registered connections", async () => {
+      const {
+        DbAdapter,
+        registerConnection,
+        getDbAdapter,
+      } = require("../../src/db/DbAdapter");
+
+      const shared = DbAdapter.getInstance();
+      registerConnection("analytics", { database: "analytics" });
+
+      await DbAdapter.closeAll();
+
+      expect(mockEnd).toHaveBeenCalledTimes(2);
+      expect(() => getDbAdapter("analytics")).toThrow(
+        'Unknown connection "analytics"'
+      );
+      expect(DbAdapter.getInstance()).not.toBe(shared);
+    });
+  });
+
   describe("getConnectionStatus()", () => {
     it("should return connection status", () => {
       const { DbAdapter } = require("../../src/db/DbAdapter");
@@ -226,3 +432,54 @@ describe("getDbAdapter()", () => {
     expect(adapterFromFunction).toBe(adapterFromClass);
   });
 });
+
+describe("registerConnection()", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.resetModules();
+  });
+
+  it("should register named connections for getDbAdapter(name)", () => {
+    const {
+      DbAdapter,
+      registerConnection,
+      getDbAdapter,
+    } = require("../../src/db/DbAdapter");
+
+    const analytics = registerConnection("analytics", "postgres://a/b");
+    const existing = new DbAdapter({ database: "reports" });
+    registerConnection("reports", existing);
+
+    expect(getDbAdapter("analytics")).toBe(analytics);
+    expect(getDbAdapter("reports")).toBe(existing);
+    expect(getDbAdapter()).toBe(DbAdapter.getInstance());
+  });
+
+  it("should reject duplicate and unknown names", () => {
+    const {
+      registerConnection,
+      getDbAdapter,
+    } = require("../../src/db/DbAdapter");
+
+    registerConnection("analytics", "postgres://a/b");
+
+    expect(() => registerConnection("analytics", "postgres://c/d")).toThrow(
+      'Connection "analytics" is already registered'
+    );
+    expect(() => getDbAdapter("missing")).toThrow(
+      'Unknown connection "missing"'
+    );
+  });
+
+  it("should unregister a connection when it is closed", async () => {
+    const {
+      registerConnection,
+      getDbAdapter,
+    } = require("../../src/db/DbAdapter");
+
+    const analytics = registerConnection("analytics", "postgres://a/b");
+    await analytics.close();
+
+    expect(() => getDbAdapter("analytics")).toThrow();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * IblalORM QueryEvents Unit Tests
+ *
+ * Tests for query hooks, the query logger and the slow query reporter.
+ */
+
+import {
+  createQueryLogger,
+  createSlowQueryReporter,
+  instrumentQuery,
+  QueryHooks,
+  withQueryOrigin,
+} from "../../src/db/QueryEvents";
+
+describe("instrumentQuery()", () => {
+  it("should emit beforeQuery and afterQuery with origin and row count", async () => {
+    const hooks = { beforeQuery: jest.fn(), afterQuery: jest.fn() };
+
+    const result = await withQueryOrigin(
+      { table: "users", model: "User", operation: "select" },
+      () =>
+        instrumentQuery([hooks], "SELECT 1", [7], "replica", async () => ({
+          rows: [],
+          rowCount: 3,
+        }))
+    );
+
+    expect(result.rowCount).toBe(3);
+    expect(hooks.beforeQuery).toHaveBeenCalledWith({
+      sql: "SELECT 1",
+      params: [7],
+      target: "replica",
+      origin: { table: "users", model: "User", operation: "select" },
+    });
+    expect(hooks.afterQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sql: "SELECT 1",
+        rowCount: 3,
+        durationMs: expect.any(Number),
+      })
+    );
+  });
+
+  it("should emit onError and rethrow", async () => {
+    const hooks = { onError: jest.fn(), afterQuery: jest.fn() };
+    const error = new Error("boom");
+
+    await expect(
+      instrumentQuery([hooks], "SELECT 1", [], "primary", async () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+
+    expect(hooks.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ error, origin: undefined })
+    );
+    expect(hooks.afterQuery).not.toHaveBeenCalled();
+  });
+
+  it("should isolate failing hooks", async () => {
+    const consoleError = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    const failing: QueryHooks = {
+      beforeQuery: () => {
+        throw new Error("hook bug");
+      },
+    };
+    const afterQuery = jest.fn();
+
+    await instrumentQuery(
+      [failing, { afterQuery }],
+      "SELECT 1",
+      [],
+      "primary",
+      async () => ({ rows: [], rowCount: 0 })
+    );
+
+    expect(afterQuery).toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalledWith(
+      "beforeQuery hook failed:",
+      expect.any(Error)
+    );
+    consoleError.mockRestore();
+  });
+});
+
+describe("createQueryLogger()", () => {
+  it("should log origin, duration, rows, SQL and params on one line", () => {
+    const log = jest.fn();
+    const logger = createQueryLogger({ log });
+
+    logger.afterQuery!({
+      sql: 'SELECT *\n  FROM "users"\n  WHERE "id" = $1',
+      params: [1],
+      target: "primary",
+      origin: { table: "users", model: "User", operation: "select" },
+      durationMs: 2.345,
+      rowCount: 1,
+    });
+
+    expect(log).toHaveBeenCalledWith(
+      '[iblal] User.select 2.3ms 1 rows  SELECT * FROM "users" WHERE "id" = $1  [1]'
+    );
+  });
+
+  it("should omit params when disabled and label raw queries", () => {
+    const log = jest.fn();
+    const logger = createQueryLogger({ log, params: false });
+
+    logger.onError!({
+      sql: "SELEC 1",
+      params: ["secret"],
+      target: "primary",
+      durationMs: 1,
+      error: Object.assign(new Error("syntax error"), { columns: [] }),
+    });
+
+    expect(log).toHaveBeenCalledWith(
+      "[iblal] raw failed after 1.0ms: syntax error  SELEC 1"
+    );
+  });
+});
+
+describe("createSlowQueryReporter()", () => {
+  it("should report only queries at or above the threshold", () => {
+    const report = jest.fn();
+    const reporter = createSlowQueryReporter({ thresholdMs: 100, report });
+    const event = {
+      sql: "SELECT 1",
+      params: [],
+      target: "primary" as const,
+      rowCount: 1,
+    };
+
+    reporter.afterQuery!({ ...event, durationMs: 99 });
+    reporter.afterQuery!({ ...event, durationMs: 150 });
+
+    expect(report).toHaveBeenCalledTimes(1);
+    expect(report).toHaveBeenCalledWith({ ...event, durationMs: 150 });
+  });
+});
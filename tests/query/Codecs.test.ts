@@ -0,0 +1,364 @@
+/**
+ * IblalORM Codecs Unit Tests
+ *
+ * Tests for built-in and custom codecs applied to column values.
+ */
+
+import { registerCodec, getCodec } from "../../src/query/Codecs";
+import { registerColumnTypes } from "../../src/query/ColumnTypes";
+import { Table } from "../../src/query/Table";
+import { QueryBuilder } from "../../src/query/QueryBuilder";
+import { ModelRelationMeta } from "../../src/query/RelationLoader";
+
+// Mock the DbAdapter
+jest.mock("../../src/db/DbAdapter", () => ({
+  getDbAdapter: jest.fn(() => ({
+    query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+  })),
+}));
+
+import { getDbAdapter } from "../../src/db/DbAdapter";
+
+/**
+ * Minimal decimal class standing in for decimal.js or big.js
+ */
+class Money {
+  constructor(readonly cents: bigint) {}
+
+  static parse(value: string): Money {
+    const [whole, fraction = ""] = value.split(".");
+    return new Money(BigInt(whole + fraction.padEnd(2, "0").slice(0, 2)));
+  }
+
+  toString(): string {
+    const digits = this.cents.toString().padStart(3, "0");
+    return `${digits.slice(0, -2)}.${digits.slice(-2)}`;
+  }
+}
+
+interface TestOrder {
+  id: bigint;
+  total: Money;
+  itemIds: bigint[];
+  weight: string;
+  tags: Array<{ name: string }>;
+}
+
+interface TestOrderWithCustomer extends TestOrder {
+  customerId: bigint;
+  quantity: number;
+}
+
+interface TestCustomer {
+  id: bigint;
+  name: string;
+  orders?: TestOrder[];
+}
+
+const customerRelationMeta: ModelRelationMeta = {
+  orders: {
+    type: "hasMany",
+    targetTable: "orders",
+    sourceColumn: "id",
+    targetColumn: "customer_id",
+    targetModel: "Order",
+  },
+};
+
+registerCodec<Money>("money", {
+  parse: (value) => Money.parse(String(value)),
+  serialize: (value) => value.toString(),
+});
+
+registerColumnTypes({
+  composites: {},
+  columns: {
+    orders: {
+      id: "bigint",
+      total: "money",
+      item_ids: "bigint[]",
+      weight: "string",
+      tags: "json",
+      customer_id: "bigint",
+    },
+    customers: { id: "bigint" },
+  },
+});
+
+describe("Codecs", () => {
+  let mockAdapter: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAdapter = {
+      query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+    };
+    (getDbAdapter as jest.Mock).mockReturnValue(mockAdapter);
+  });
+
+  describe("built-in codecs", () => {
+    it("should parse pg values and their text form", () => {
+      expect(getCodec("bigint")!.parse("9007199254740993")).toBe(
+        9007199254740993n
+      );
+      expect(getCodec("number")!.parse("12.5")).toBe(12.5);
+      expect(getCodec("string")!.parse(1.5)).toBe("1.5");
+      expect(getCodec("boolean")!.parse("t")).toBe(true);
+      expect(getCodec("json")!.parse('{"a":1}')).toEqual({ a: 1 });
+      expect(
+        (getCodec("Date")!.parse("2024-01-02 03:04:05+00") as Date).getTime()
+      ).toBe(Date.UTC(2024, 0, 2, 3, 4, 5));
+    });
+
+    it("should serialize bigint values as strings", () => {
+      expect(getCodec("bigint")!.serialize(10n)).toBe("10");
+    });
+  });
+
+  describe("codec columns", () => {
+    it("should parse rows read by a query builder", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: "9007199254740993",
+            total: "12.30",
+            item_ids: ["1", "2"],
+            weight: "1.5",
+          },
+        ],
+        rowCount: 1,
+      });
+
+      const rows = await new QueryBuilder<TestOrder>("orders").exec();
+
+      expect(rows[0].id).toBe(9007199254740993n);
+      expect(rows[0].total).toEqual(new Money(1230n));
+      expect(rows[0].itemIds).toEqual([1n, 2n]);
+      expect(rows[0].weight).toBe("1.5");
+    });
+
+    it("should not parse JSON values pg already parsed again", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [
+          { id: "1", tags: "draft" },
+          { id: "2", tags: "123" },
+        ],
+        rowCount: 2,
+      });
+
+      const rows = await new QueryBuilder<TestOrder>("orders").exec();
+
+      expect(rows.map((row) => row.tags)).toEqual(["draft", "123"]);
+    });
+
+    it("should serialize where() values", async () => {
+      await new QueryBuilder<TestOrder>("orders")
+        .where("total", ">", new Money(500n))
+        .where("id", "IN", [1n, 2n])
+        .exec();
+
+      expect(mockAdapter.query.mock.calls[0][1]).toEqual(["5.00", "1", "2"]);
+    });
+
+    it("should serialize inserted values", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ id: "1", total: "5.00", item_ids: ["3"], weight: "2" }],
+        rowCount: 1,
+      });
+      const table = new Table<TestOrder, "id">("orders", ["id"]);
+
+      const order = await table.insert({
+        total: new Money(500n),
+        itemIds: [3n],
+        weight: "2",
+        tags: [{ name: "gift" }],
+      });
+
+      // JSON arrays are sent as JSON, not as SQL arrays
+      expect(mockAdapter.query.mock.calls[0][1]).toEqual([
+        "5.00",
+        '{"3"}',
+        "2",
+        '[{"name":"gift"}]',
+      ]);
+      expect(order!.id).toBe(1n);
+    });
+  });
+
+  describe("relationship keys", () => {
+    it("should attach included records by decoded keys", async () => {
+      mockAdapter.query
+        .mockResolvedValueOnce({
+          rows: [{ id: "5", name: "Ada" }],
+          rowCount: 1,
+        })
+        .mockResolvedValueOnce({
+          rows: [{ id: "1", customer_id: "5", total: "2.00" }],
+          rowCount: 1,
+        });
+
+      const customers = await new QueryBuilder<TestCustomer>(
+        "customers",
+        "Customer",
+        customerRelationMeta
+      )
+        .include("orders")
+        .exec();
+
+      expect(mockAdapter.query.mock.calls[1][1]).toEqual(["5"]);
+      expect(customers[0].orders).toHaveLength(1);
+      expect(customers[0].orders[0].id).toBe(1n);
+    });
+
+    it("should attach relationship aggregates by decoded keys", async () => {
+      mockAdapter.query
+        .mockResolvedValueOnce({
+          rows: [{ id: "5", name: "Ada" }],
+          rowCount: 1,
+        })
+        .mockResolvedValueOnce({
+          rows: [{ __iblal_parent_key: "5", ordersCount: "2" }],
+          rowCount: 1,
+        });
+
+      const customers = await new QueryBuilder<TestCustomer>(
+        "customers",
+        "Customer",
+        customerRelationMeta
+      )
+        .withCount("orders")
+        .exec();
+
+      expect(mockAdapter.query.mock.calls[1][1]).toEqual(["5"]);
+      expect(customers[0].ordersCount).toBe(2);
+    });
+  });
+
+  describe("joined columns", () => {
+    it("should decode joined columns with the joined table's codecs", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ id: "5", "orders.id": "7", "orders.total": "12.30" }],
+        rowCount: 1,
+      });
+
+      const customers = await new QueryBuilder<TestCustomer>(
+        "customers",
+        "Customer",
+        customerRelationMeta
+      )
+        .select("id")
+        .join("orders", "id", "total")
+        .exec();
+
+      expect(customers[0]).toEqual({
+        id: 5n,
+        ordersId: 7n,
+        ordersTotal: new Money(1230n),
+      });
+    });
+
+    it("should serialize where() values on joined columns", async () => {
+      await new QueryBuilder<TestCustomer>(
+        "customers",
+        "Customer",
+        customerRelationMeta
+      )
+        .join("orders")
+        .where("orders.total", ">", new Money(500n))
+        .where("orders.id", "IN", [1n, 2n])
+        .exec();
+
+      expect(mockAdapter.query.mock.calls[0][1]).toEqual(["5.00", "1", "2"]);
+    });
+  });
+
+  describe("relationship aggregates", () => {
+    it("should decode relationship aggregates with column codecs", async () => {
+      mockAdapter.query
+        .mockResolvedValueOnce({
+          rows: [{ id: "5", name: "Ada" }],
+          rowCount: 1,
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              __iblal_parent_key: "5",
+              ordersSumId: "9007199254740993",
+              ordersMaxTotal: "12.30",
+              ordersAvgTotal: "6.1500000000000000",
+            },
+          ],
+          rowCount: 1,
+        });
+
+      const customers = await new QueryBuilder<TestCustomer>(
+        "customers",
+        "Customer",
+        customerRelationMeta
+      )
+        .withAggregate("orders", "sum", "id")
+        .withAggregate("orders", "max", "total")
+        .withAggregate("orders", "avg", "total")
+        .exec();
+
+      const sum: bigint | null = customers[0].ordersSumId;
+      const max: Money | null = customers[0].ordersMaxTotal;
+      const avg: string | null = customers[0].ordersAvgTotal;
+      expect(sum).toBe(9007199254740993n);
+      expect(max).toEqual(new Money(1230n));
+      expect(avg).toBe("6.1500000000000000");
+    });
+  });
+
+  describe("aggregates", () => {
+    it("should decode group keys and aggregates with column codecs", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [
+          {
+            customer_id: "9007199254740993",
+            revenue: "12.30",
+            largestOrder: "9007199254740995",
+            orderCount: "2",
+            units: "7",
+          },
+        ],
+        rowCount: 1,
+      });
+
+      const stats = await new QueryBuilder<TestOrderWithCustomer>("orders")
+        .groupBy("customerId")
+        .sum("total", "revenue")
+        .max("id", "largestOrder")
+        .count("orderCount")
+        .sum("quantity", "units")
+        .exec();
+
+      const revenue: Money = stats[0].revenue;
+      const units: number = stats[0].units;
+      expect(stats[0].customerId).toBe(9007199254740993n);
+      expect(revenue).toEqual(new Money(1230n));
+      expect(stats[0].largestOrder).toBe(9007199254740995n);
+      expect(stats[0].orderCount).toBe(2);
+      expect(units).toBe(7);
+    });
+
+    it("should keep the precision of bigint and numeric aggregates", async () => {
+      mockAdapter.query
+        .mockResolvedValueOnce({ rows: [{ sum: "9007199254740993" }] })
+        .mockResolvedValueOnce({ rows: [{ avg: "1.2345678901234567" }] })
+        .mockResolvedValueOnce({ rows: [{ min: "0.10" }] })
+        .mockResolvedValueOnce({ rows: [{ avg: "2.5000000000000000" }] });
+
+      const builder = new QueryBuilder<TestOrderWithCustomer>("orders");
+      const idSum: bigint | null = await builder.sum("id");
+      const weightAvg: string | null = await builder.avg("weight");
+      const minTotal: Money | null = await builder.min("total");
+      const quantityAvg: number | null = await builder.avg("quantity");
+
+      expect(idSum).toBe(9007199254740993n);
+      expect(weightAvg).toBe("1.2345678901234567");
+      expect(minTotal).toEqual(new Money(10n));
+      expect(quantityAvg).toBe(2.5);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * IblalORM Column Types Unit Tests
+ *
+ * Tests for decoding composite and array columns pg returns as text.
+ */
+
+import {
+  registerColumnTypes,
+  decodeRow,
+  encodeColumnValue,
+  parseArrayLiteral,
+  parseCompositeLiteral,
+} from "../../src/query/ColumnTypes";
+import { Table } from "../../src/query/Table";
+import { QueryBuilder } from "../../src/query/QueryBuilder";
+
+// Mock the DbAdapter
+jest.mock("../../src/db/DbAdapter", () => ({
+  getDbAdapter: jest.fn(() => ({
+    query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+  })),
+}));
+
+import { getDbAdapter } from "../../src/db/DbAdapter";
+
+interface Address {
+  street: string | null;
+  houseNumber: number | null;
+}
+
+interface TestProfile {
+  id: number;
+  homeAddress: Address;
+  pastAddresses: Address[];
+  badges: string[];
+}
+
+registerColumnTypes({
+  composites: {
+    address: { street: "string", house_number: "number" },
+    labeled_data: { label: "string", data: "json" },
+  },
+  columns: {
+    profiles: {
+      home_address: "address",
+      past_addresses: "address[]",
+      badges: "string[]",
+      last_event: "labeled_data",
+    },
+  },
+});
+
+describe("ColumnTypes", () => {
+  let mockAdapter: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAdapter = {
+      query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+    };
+    (getDbAdapter as jest.Mock).mockReturnValue(mockAdapter);
+  });
+
+  describe("parseArrayLiteral()", () => {
+    it("should parse quoted, unquoted and NULL elements", () => {
+      expect(parseArrayLiteral('{draft,"two words",NULL,"a \\"b\\""}')).toEqual(
+        ["draft", "two words", null, 'a "b"']
+      );
+    });
+
+    it("should parse nested arrays and explicit bounds", () => {
+      expect(parseArrayLiteral("{{1,2},{3,4}}")).toEqual([
+        ["1", "2"],
+        ["3", "4"],
+      ]);
+      expect(parseArrayLiteral("[0:1]={a,b}")).toEqual(["a", "b"]);
+      expect(parseArrayLiteral("{}")).toEqual([]);
+    });
+  });
+
+  describe("parseCompositeLiteral()", () => {
+    it("should parse quoted fields and treat empty fields as NULL", () => {
+      expect(parseCompositeLiteral('(Main St,"4, 2",,"")')).toEqual([
+        "Main St",
+        "4, 2",
+        null,
+        "",
+      ]);
+      expect(parseCompositeLiteral('("say ""hi""",1)')).toEqual([
+        'say "hi"',
+        "1",
+      ]);
+    });
+  });
+
+  describe("decodeRow()", () => {
+    it("should decode composite and array columns", () => {
+      const row = decodeRow("profiles", {
+        id: 1,
+        home_address: "(Main St,42)",
+        past_addresses: '{"(Old Rd,7)","(,)"}',
+        badges: "{early,admin}",
+      });
+
+      expect(row).toEqual({
+        id: 1,
+        home_address: { street: "Main St", houseNumber: 42 },
+        past_addresses: [
+          { street: "Old Rd", houseNumber: 7 },
+          { street: null, houseNumber: null },
+        ],
+        badges: ["early", "admin"],
+      });
+    });
+
+    it("should parse JSON fields of composites from their text form", () => {
+      const row = decodeRow("profiles", {
+        last_event: '(signup,"{""plan"": ""pro""}")',
+      });
+
+      expect(row.last_event).toEqual({
+        label: "signup",
+        data: { plan: "pro" },
+      });
+    });
+
+    it("should leave values pg already parsed and other tables unchanged", () => {
+      const row = { badges: ["early"], home_address: null };
+      expect(decodeRow("profiles", row)).toEqual(row);
+      expect(decodeRow("users", row)).toBe(row);
+    });
+  });
+
+  describe("encodeColumnValue()", () => {
+    it("should encode composites and arrays of composites", () => {
+      expect(
+        encodeColumnValue("profiles", "home_address", {
+          street: 'Main "St"',
+          houseNumber: 42,
+        })
+      ).toBe('("Main \\"St\\"","42")');
+      expect(
+        encodeColumnValue("profiles", "past_addresses", [
+          { street: "Old Rd", houseNumber: null },
+        ])
+      ).toBe('{"(\\"Old Rd\\",)"}');
+    });
+
+    it("should return values of other columns unchanged", () => {
+      expect(encodeColumnValue("profiles", "id", 1)).toBe(1);
+      expect(encodeColumnValue("profiles", "home_address", null)).toBeNull();
+    });
+  });
+
+  describe("Table and QueryBuilder", () => {
+    it("should encode on insert and decode the returned row", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ id: 1, home_address: "(Main St,42)", badges: "{a}" }],
+        rowCount: 1,
+      });
+      const table = new Table<TestProfile, "id">("profiles", ["id"]);
+
+      const profile = await table.insert({
+        homeAddress: { street: "Main St", houseNumber: 42 },
+        pastAddresses: [],
+        badges: ["a"],
+      });
+
+      const params = mockAdapter.query.mock.calls[0][1];
+      expect(params).toEqual(['("Main St","42")', "{}", '{"a"}']);
+      expect(profile).toEqual({
+        id: 1,
+        homeAddress: { street: "Main St", houseNumber: 42 },
+        badges: ["a"],
+      });
+    });
+
+    it("should decode rows read by a query builder", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ id: 1, home_address: "(Main St,42)" }],
+        rowCount: 1,
+      });
+
+      const rows = await new QueryBuilder<TestProfile>("profiles").exec();
+
+      expect(rows[0].homeAddress).toEqual({
+        street: "Main St",
+        houseNumber: 42,
+      });
+    });
+  });
+});
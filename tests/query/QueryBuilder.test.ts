@@ -10,6 +10,11 @@ import {
   ComparisonOperator,
   SortDirection,
 } from "../../src/query/QueryBuilder";
+import { Json } from "../../src/query/JsonPath";
+import {
+  ModelRelationMeta,
+  registerRelationMeta,
+} from "../../src/query/RelationLoader";
 
 // Mock the DbAdapter
 jest.mock("../../src/db/DbAdapter", () => ({
@@ -29,8 +34,66 @@ interface TestUser {
   createdAt: Date;
   isActive: boolean;
   age: number | null;
+  posts?: TestPost[];
+}
+
+interface TestPost {
+  id: number;
+  title: string;
+  authorId: number;
+  viewCount: number;
+  author?: TestUser;
+  categories?: TestCategory[];
+}
+
+interface TestCategory {
+  id: number;
+  name: string;
+}
+
+interface ArticleMetadata {
+  seo: { title: string; og_image?: string; score: number };
+  tags: string[];
+}
+
+interface TestArticle {
+  id: number;
+  metadata: Json<ArticleMetadata>;
+  settings: Json | null;
 }
 
+const userRelationMeta: ModelRelationMeta = {
+  posts: {
+    type: "hasMany",
+    targetTable: "posts",
+    sourceColumn: "id",
+    targetColumn: "author_id",
+    targetModel: "Post",
+  },
+};
+
+const postRelationMeta: ModelRelationMeta = {
+  author: {
+    type: "belongsTo",
+    targetTable: "users",
+    sourceColumn: "author_id",
+    targetColumn: "id",
+    targetModel: "User",
+  },
+  categories: {
+    type: "manyToMany",
+    targetTable: "categories",
+    sourceColumn: "id",
+    targetColumn: "id",
+    targetModel: "Category",
+    through: {
+      table: "post_categories",
+      sourceColumn: "post_id",
+      targetColumn: "category_id",
+    },
+  },
+};
+
 describe("QueryBuilder", () => {
   let mockAdapter: { query: jest.Mock };
 
@@ -184,6 +247,196 @@ describe("QueryBuilder", () => {
     });
   });
 
+  describe("orWhere() and condition groups", () => {
+    it("should join conditions with OR", async () => {
+      const builder = new QueryBuilder<TestUser>("users");
+      await builder
+        .select("*")
+        .where("isActive", true)
+        .orWhere("age", ">", 65)
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM "users" WHERE "is_active" = $1 OR "age" > $2',
+        [true, 65]
+      );
+    });
+
+    it("should support orWhereNull()", async () => {
+      const builder = new QueryBuilder<TestUser>("users");
+      await builder
+        .select("*")
+        .where("age", ">=", 18)
+        .orWhereNull("age")
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM "users" WHERE "age" >= $1 OR "age" IS NULL',
+        [18]
+      );
+    });
+
+    it("should wrap an OR group in parentheses", async () => {
+      const builder = new QueryBuilder<TestUser>("users");
+      await builder
+        .select("*")
+        .where("email", "LIKE", "%@example.com")
+        .orWhereGroup((q) => q.where("isActive", true).where("age", ">", 100))
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM "users" WHERE "email" LIKE $1 OR ("is_active" = $2 AND "age" > $3)',
+        ["%@example.com", true, 100]
+      );
+    });
+
+    it("should number parameters across nested groups", async () => {
+      const builder = new QueryBuilder<TestUser>("users");
+      await builder
+        .select("*")
+        .where("isActive", true)
+        .whereGroup((q) =>
+          q
+            .where("id", "IN", [1, 2])
+            .orWhereGroup((inner) =>
+              inner.where("firstName", "John").whereNotNull("age")
+            )
+        )
+        .where("lastName", "Doe")
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM "users" WHERE "is_active" = $1 AND ("id" IN ($2, $3) OR ("first_name" = $4 AND "age" IS NOT NULL)) AND "last_name" = $5',
+        [true, 1, 2, "John", "Doe"]
+      );
+    });
+
+    it("should ignore empty groups", async () => {
+      const builder = new QueryBuilder<TestUser>("users");
+      await builder
+        .select("*")
+        .whereGroup((q) => q)
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM "users"',
+        []
+      );
+    });
+
+    it("should apply groups to count() and toSQL()", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ count: "3" }],
+        rowCount: 1,
+      });
+
+      const builder = new QueryBuilder<TestUser>("users")
+        .select("*")
+        .where("isActive", false)
+        .orWhereGroup((q) => q.where("age", "<", 18).orWhereNull("age"));
+
+      const count = await builder.count();
+
+      expect(count).toBe(3);
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) as count FROM "users" WHERE "is_active" = $1 OR ("age" < $2 OR "age" IS NULL)',
+        [false, 18]
+      );
+      expect(builder.toSQL()).toEqual({
+        sql: 'SELECT * FROM "users" WHERE "is_active" = $1 OR ("age" < $2 OR "age" IS NULL)',
+        params: [false, 18],
+      });
+    });
+  });
+
+  describe("whereJson() and JSON path selection", () => {
+    it("should compare jsonb values at a path", async () => {
+      await new QueryBuilder<TestArticle>("articles")
+        .select("*")
+        .whereJson("metadata", "seo.score", ">", 50)
+        .orWhereJson("metadata", "tags.0", "IN", ["news", "sport"])
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        `SELECT * FROM "articles" WHERE "metadata" #> '{"seo","score"}' > $1::jsonb OR "metadata" #> '{"tags","0"}' IN ($2::jsonb, $3::jsonb)`,
+        ["50", '"news"', '"sport"']
+      );
+    });
+
+    it("should compare the text value for LIKE and IS NULL", async () => {
+      await new QueryBuilder<TestArticle>("articles")
+        .whereJson("metadata", "seo.title", "ILIKE", "%orm%")
+        .whereJson("settings", "it's", "IS NULL", null)
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        `SELECT * FROM "articles" WHERE "metadata" #>> '{"seo","title"}' ILIKE $1 AND "settings" #>> '{"it''s"}' IS NULL`,
+        ["%orm%"]
+      );
+    });
+
+    it("should build containment and key existence conditions", async () => {
+      await new QueryBuilder<TestArticle>("articles")
+        .whereJsonContains("metadata", { seo: { score: 10 }, tags: ["news"] })
+        .whereJsonContainedBy("settings", { theme: "dark", beta: true })
+        .whereJsonHasKey("settings", "theme")
+        .whereJsonHasAnyKey("metadata", ["seo", "tags"])
+        .whereJsonHasAllKeys("settings", ["theme", "beta"])
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM "articles" WHERE "metadata" @> $1::jsonb AND "settings" <@ $2::jsonb AND "settings" ? $3 AND "metadata" ?| $4::text[] AND "settings" ?& $5::text[]',
+        [
+          '{"seo":{"score":10},"tags":["news"]}',
+          '{"theme":"dark","beta":true}',
+          "theme",
+          ["seo", "tags"],
+          ["theme", "beta"],
+        ]
+      );
+    });
+
+    it("should select values at JSON paths named after the path", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ id: 1, metadataSeoTitle: "Hello", metadataSeoOgImage: null }],
+        rowCount: 1,
+      });
+
+      const articles = await new QueryBuilder<TestArticle>("articles")
+        .select("id", "metadata.seo.title", "metadata.seo.og_image")
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        `SELECT "id", "metadata" #> '{"seo","title"}' AS "metadataSeoTitle", "metadata" #> '{"seo","og_image"}' AS "metadataSeoOgImage" FROM "articles"`,
+        []
+      );
+      const titles: Array<string | null> = articles.map(
+        (a) => a.metadataSeoTitle
+      );
+      expect(titles).toEqual(["Hello"]);
+      expect(articles[0].metadataSeoOgImage).toBeNull();
+    });
+
+    it("should escape quotes in selected JSON paths", async () => {
+      await new QueryBuilder<TestArticle>("articles")
+        .select('settings.a"; DROP TABLE articles; --')
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        `SELECT "settings" #> '{"a\\"; DROP TABLE articles; --"}' AS "settingsA""; DROP TABLE articles; --" FROM "articles"`,
+        []
+      );
+    });
+
+    it("should throw for empty path keys", () => {
+      const builder = new QueryBuilder<TestArticle>("articles");
+
+      expect(() => builder.whereJson("settings", "theme.", "=", "x")).toThrow(
+        'Invalid JSON path "theme."'
+      );
+    });
+  });
+
   describe("orderBy()", () => {
     it("should build ORDER BY clause with default ASC direction", async () => {
       const builder = new QueryBuilder<TestUser>("users");
@@ -363,6 +616,700 @@ describe("QueryBuilder", () => {
     });
   });
 
+  describe("sum(), avg(), min() and max()", () => {
+    it("should return SUM as a number", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ sum: "1250" }],
+        rowCount: 1,
+      });
+
+      const builder = new QueryBuilder<TestUser>("users");
+      const total = await builder.where("isActive", true).sum("age");
+
+      expect(total).toBe(1250);
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT SUM("age") as sum FROM "users" WHERE "is_active" = $1',
+        [true]
+      );
+    });
+
+    it("should return AVG as a number", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ avg: "31.5000000000000000" }],
+        rowCount: 1,
+      });
+
+      const builder = new QueryBuilder<TestUser>("users");
+      const average = await builder.avg("age");
+
+      expect(average).toBe(31.5);
+    });
+
+    it("should return null when no rows match", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ sum: null }],
+        rowCount: 1,
+      });
+
+      const builder = new QueryBuilder<TestUser>("users");
+      expect(await builder.sum("age")).toBeNull();
+    });
+
+    it("should return MIN and MAX values unchanged", async () => {
+      const oldest = new Date("2020-01-01");
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ min: oldest }],
+        rowCount: 1,
+      });
+
+      const builder = new QueryBuilder<TestUser>("users");
+      const result = await builder.min("createdAt");
+
+      expect(result).toBe(oldest);
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT MIN("created_at") as min FROM "users"',
+        []
+      );
+    });
+  });
+
+  describe("groupBy()", () => {
+    it("should build a grouped query with aggregates", () => {
+      const { sql, params } = new QueryBuilder<TestUser>("users")
+        .where("isActive", true)
+        .groupBy("lastName")
+        .count("userCount")
+        .avg("age", "averageAge")
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "last_name", COUNT(*) AS "userCount", AVG("age") AS "averageAge" FROM "users" WHERE "is_active" = $1 GROUP BY "last_name"'
+      );
+      expect(params).toEqual([true]);
+    });
+
+    it("should expand aliases in HAVING and number parameters after WHERE", () => {
+      const { sql, params } = new QueryBuilder<TestUser>("users")
+        .where("isActive", true)
+        .groupBy("lastName", "firstName")
+        .count("userCount")
+        .max("age", "maxAge")
+        .having("userCount", ">", 1)
+        .orHaving("maxAge", ">=", 65)
+        .orderBy("userCount", "DESC")
+        .orderBy("lastName")
+        .limit(5)
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "last_name", "first_name", COUNT(*) AS "userCount", MAX("age") AS "maxAge" FROM "users" WHERE "is_active" = $1 GROUP BY "last_name", "first_name" HAVING COUNT(*) > $2 OR MAX("age") >= $3 ORDER BY "userCount" DESC, "last_name" ASC LIMIT 5'
+      );
+      expect(params).toEqual([true, 1, 65]);
+    });
+
+    it("should convert numeric aggregates and camelCase grouped keys", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [
+          { last_name: "Doe", userCount: "2", totalAge: "70", maxAge: 40 },
+          { last_name: "Smith", userCount: "1", totalAge: null, maxAge: null },
+        ],
+        rowCount: 2,
+      });
+
+      const results = await new QueryBuilder<TestUser>("users")
+        .groupBy("lastName")
+        .count("userCount")
+        .sum("age", "totalAge")
+        .max("age", "maxAge")
+        .exec();
+
+      expect(results).toEqual([
+        { lastName: "Doe", userCount: 2, totalAge: 70, maxAge: 40 },
+        { lastName: "Smith", userCount: 1, totalAge: null, maxAge: null },
+      ]);
+    });
+
+    it("should escape double quotes in aggregate aliases", () => {
+      const { sql } = new QueryBuilder<TestUser>("users")
+        .groupBy("lastName")
+        .count('a"b')
+        .orderBy('a"b', "DESC")
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "last_name", COUNT(*) AS "a""b" FROM "users" GROUP BY "last_name" ORDER BY "a""b" DESC'
+      );
+    });
+
+    it("should throw when no columns are given", () => {
+      expect(() => new QueryBuilder<TestUser>("users").groupBy()).toThrow(
+        "groupBy() requires at least one column"
+      );
+    });
+
+    it("should throw on duplicate aggregate aliases", () => {
+      const grouped = new QueryBuilder<TestUser>("users")
+        .groupBy("lastName")
+        .count("total");
+
+      expect(() => grouped.sum("age", "total")).toThrow(
+        'Aggregate alias "total" is already selected'
+      );
+    });
+  });
+
+  describe("join() and leftJoin()", () => {
+    it("should join a belongsTo relationship and alias selected columns", () => {
+      const { sql, params } = new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .select("id", "title")
+        .join("author", "firstName", "lastName")
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "posts"."id", "posts"."title", "author"."first_name" AS "author.first_name", "author"."last_name" AS "author.last_name" FROM "posts" INNER JOIN "users" AS "author" ON "author"."id" = "posts"."author_id"'
+      );
+      expect(params).toEqual([]);
+    });
+
+    it("should qualify WHERE and ORDER BY columns", () => {
+      const { sql, params } = new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .select("*")
+        .leftJoin("author")
+        .where("author.isActive", true)
+        .where("viewCount", ">", 10)
+        .orderBy("author.lastName", "DESC")
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "posts".* FROM "posts" LEFT JOIN "users" AS "author" ON "author"."id" = "posts"."author_id" WHERE "author"."is_active" = $1 AND "posts"."view_count" > $2 ORDER BY "author"."last_name" DESC'
+      );
+      expect(params).toEqual([true, 10]);
+    });
+
+    it("should join hasMany relationships on the target foreign key", () => {
+      const { sql } = new QueryBuilder<TestUser>("users", "User", {
+        posts: {
+          type: "hasMany",
+          targetTable: "posts",
+          sourceColumn: "id",
+          targetColumn: "author_id",
+        },
+      })
+        .select("id")
+        .join("posts", "title")
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "users"."id", "posts"."title" AS "posts.title" FROM "users" INNER JOIN "posts" AS "posts" ON "posts"."author_id" = "users"."id"'
+      );
+    });
+
+    it("should return joined columns with camelCase prefixed keys", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ id: 1, title: "Hello", "author.first_name": "John" }],
+        rowCount: 1,
+      });
+
+      const results = await new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .select("id", "title")
+        .join("author", "firstName")
+        .exec();
+
+      expect(results[0]).toEqual({
+        id: 1,
+        title: "Hello",
+        authorFirstName: "John",
+      });
+    });
+
+    it("should not let joined aliases collide with base columns", () => {
+      const { sql } = new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .select("id", "authorId")
+        .join("author", "id")
+        .toSQL();
+
+      // "author_id" would clash with posts.author_id
+      expect(sql).toBe(
+        'SELECT "posts"."id", "posts"."author_id", "author"."id" AS "author.id" FROM "posts" INNER JOIN "users" AS "author" ON "author"."id" = "posts"."author_id"'
+      );
+    });
+
+    it("should apply joins to count()", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ count: "2" }],
+        rowCount: 1,
+      });
+
+      const count = await new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .join("author")
+        .where("author.isActive", true)
+        .count();
+
+      expect(count).toBe(2);
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) as count FROM "posts" INNER JOIN "users" AS "author" ON "author"."id" = "posts"."author_id" WHERE "author"."is_active" = $1',
+        [true]
+      );
+    });
+
+    it("should join manyToMany relationships through the junction table", () => {
+      const { sql } = new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .select("id")
+        .leftJoin("categories", "name")
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "posts"."id", "categories"."name" AS "categories.name" FROM "posts" LEFT JOIN "post_categories" AS "categories_through" ON "categories_through"."post_id" = "posts"."id" LEFT JOIN "categories" AS "categories" ON "categories"."id" = "categories_through"."category_id"'
+      );
+    });
+
+    it("should throw for unknown relationships", () => {
+      expect(() =>
+        new QueryBuilder<TestPost>("posts", "Post", {}).join("author")
+      ).toThrow('Unknown relationship "author" on Post');
+    });
+
+    it("should throw when joining the same relationship twice", () => {
+      const builder = new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      ).join("author");
+
+      expect(() => builder.leftJoin("author")).toThrow(
+        'Relationship "author" is already joined'
+      );
+    });
+  });
+
+  describe("whereHas() and whereDoesntHave()", () => {
+    it("should compile whereHas to a correlated EXISTS subquery", () => {
+      const { sql, params } = new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      )
+        .select("*")
+        .where("isActive", true)
+        .whereHas("posts", (q) => q.where("viewCount", ">", 100))
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT * FROM "users" WHERE "is_active" = $1 AND EXISTS (SELECT 1 FROM "posts" AS "posts" WHERE "posts"."author_id" = "users"."id" AND ("posts"."view_count" > $2))'
+      );
+      expect(params).toEqual([true, 100]);
+    });
+
+    it("should compile whereDoesntHave without a callback", () => {
+      const { sql } = new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .select("*")
+        .whereDoesntHave("author")
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT * FROM "posts" WHERE NOT EXISTS (SELECT 1 FROM "users" AS "author" WHERE "author"."id" = "posts"."author_id")'
+      );
+    });
+
+    it("should keep OR groups inside the subquery parenthesised", () => {
+      const { sql, params } = new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      )
+        .select("id")
+        .where("isActive", false)
+        .orWhereHas("posts", (q) =>
+          q.where("title", "LIKE", "%orm%").orWhere("viewCount", ">", 5)
+        )
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "id" FROM "users" WHERE "is_active" = $1 OR EXISTS (SELECT 1 FROM "posts" AS "posts" WHERE "posts"."author_id" = "users"."id" AND ("posts"."title" LIKE $2 OR "posts"."view_count" > $3))'
+      );
+      expect(params).toEqual([false, "%orm%", 5]);
+    });
+
+    it("should correlate manyToMany relationships through the junction table", () => {
+      const { sql, params } = new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .select("*")
+        .whereHas("categories", (q) => q.where("name", "News"))
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT * FROM "posts" WHERE EXISTS (SELECT 1 FROM "post_categories" AS "categories_through" INNER JOIN "categories" AS "categories" ON "categories"."id" = "categories_through"."category_id" WHERE "categories_through"."post_id" = "posts"."id" AND ("categories"."name" = $1))'
+      );
+      expect(params).toEqual(["News"]);
+    });
+
+    it("should correlate against joined queries and apply to count()", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ count: "4" }],
+        rowCount: 1,
+      });
+
+      const count = await new QueryBuilder<TestPost>(
+        "posts",
+        "Post",
+        postRelationMeta
+      )
+        .join("author")
+        .whereHas("author", (q) => q.whereNotNull("age"))
+        .count();
+
+      expect(count).toBe(4);
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) as count FROM "posts" INNER JOIN "users" AS "author" ON "author"."id" = "posts"."author_id" WHERE EXISTS (SELECT 1 FROM "users" AS "author" WHERE "author"."id" = "posts"."author_id" AND ("author"."age" IS NOT NULL))',
+        []
+      );
+    });
+
+    it("should nest whereHas through the target model's relationships", () => {
+      registerRelationMeta({
+        User: userRelationMeta,
+        Post: postRelationMeta,
+      });
+
+      const { sql, params } = new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      )
+        .select("id")
+        .whereHas("posts", (q) =>
+          q
+            .where("viewCount", ">", 100)
+            .whereHas("categories", (c) => c.where("name", "News"))
+        )
+        .toSQL();
+
+      expect(sql).toBe(
+        'SELECT "id" FROM "users" WHERE EXISTS (SELECT 1 FROM "posts" AS "posts" WHERE "posts"."author_id" = "users"."id" AND ("posts"."view_count" > $1 AND EXISTS (SELECT 1 FROM "post_categories" AS "categories_through" INNER JOIN "categories" AS "categories" ON "categories"."id" = "categories_through"."category_id" WHERE "categories_through"."post_id" = "posts"."id" AND ("categories"."name" = $2))))'
+      );
+      expect(params).toEqual([100, "News"]);
+    });
+
+    it("should throw for unknown relationships", () => {
+      expect(() =>
+        new QueryBuilder<TestUser>("users", "User", {}).whereHas("posts")
+      ).toThrow('Unknown relationship "posts" on User');
+    });
+  });
+
+  describe("include()", () => {
+    it("should load nested include paths level by level", async () => {
+      registerRelationMeta({
+        User: userRelationMeta,
+        Post: postRelationMeta,
+      });
+      mockAdapter.query
+        .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 })
+        .mockResolvedValueOnce({
+          rows: [{ id: 10, author_id: 1 }],
+          rowCount: 1,
+        })
+        .mockResolvedValueOnce({
+          rows: [{ id: 1, first_name: "John" }],
+          rowCount: 1,
+        });
+
+      const users = await new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      )
+        .select("id")
+        .include("posts.author")
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenCalledTimes(3);
+      expect(users[0].posts[0].author.firstName).toBe("John");
+    });
+
+    it("should constrain included records with the callback", async () => {
+      mockAdapter.query
+        .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 })
+        .mockResolvedValueOnce({
+          rows: [{ id: 10, title: "Top", author_id: 1 }],
+          rowCount: 1,
+        });
+
+      const users = await new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      )
+        .select("id")
+        .where("isActive", true)
+        .include("posts", (q) =>
+          q
+            .where("viewCount", ">", 100)
+            .orderBy("viewCount", "DESC")
+            .select("id", "title")
+            .limit(3)
+        )
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT "id" FROM "users" WHERE "is_active" = $1',
+        [true]
+      );
+      expect(mockAdapter.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT * FROM (SELECT "posts"."id", "posts"."title", "posts"."author_id", ROW_NUMBER() OVER (PARTITION BY "posts"."author_id" ORDER BY "posts"."view_count" DESC) AS "__iblal_row_number" FROM "posts" WHERE "posts"."author_id" IN ($1) AND ("posts"."view_count" > $2)) AS "__iblal_ranked" WHERE "__iblal_row_number" > 0 AND "__iblal_row_number" <= 3 ORDER BY "__iblal_row_number"',
+        [1, 100]
+      );
+      expect(users[0].posts).toEqual([{ id: 10, title: "Top", authorId: 1 }]);
+    });
+
+    it("should type included records with the callback's columns", async () => {
+      registerRelationMeta({
+        User: userRelationMeta,
+        Post: postRelationMeta,
+      });
+      mockAdapter.query
+        .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 })
+        .mockResolvedValueOnce({
+          rows: [{ id: 10, title: "Top", author_id: 1 }],
+          rowCount: 1,
+        })
+        .mockResolvedValueOnce({
+          rows: [{ id: 1, first_name: "John" }],
+          rowCount: 1,
+        });
+
+      const users = await new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      )
+        .select("id")
+        .include("posts", (q) => q.select("id", "title", "authorId"))
+        .include("posts.author")
+        .exec();
+
+      const post = users[0].posts[0];
+      const title: string = post.title;
+      // @ts-expect-error viewCount is not selected
+      expect(post.viewCount).toBeUndefined();
+      expect(title).toBe("Top");
+      expect(post.author.firstName).toBe("John");
+    });
+
+    it("should constrain the last relationship of a dotted path", async () => {
+      registerRelationMeta({
+        User: userRelationMeta,
+        Post: postRelationMeta,
+      });
+      mockAdapter.query
+        .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 })
+        .mockResolvedValueOnce({
+          rows: [{ id: 10, author_id: 1 }],
+          rowCount: 1,
+        })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      await new QueryBuilder<TestUser>("users", "User", userRelationMeta)
+        .select("id")
+        .include("posts.categories", (q) => q.where("name", "News"))
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT * FROM "posts" WHERE "author_id" IN ($1)',
+        [1]
+      );
+      expect(mockAdapter.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT "categories".*, "post_categories"."post_id" AS "__iblal_parent_key" FROM "categories" INNER JOIN "post_categories" ON "post_categories"."category_id" = "categories"."id" WHERE "post_categories"."post_id" IN ($1) AND ("categories"."name" = $2)',
+        [10, "News"]
+      );
+    });
+
+    it("should throw for an unknown relationship path with a callback", () => {
+      const builder = new QueryBuilder<TestPost>("posts", "Post", {});
+
+      expect(() => builder.include("author", (q) => q)).toThrow(
+        'Unknown relationship path "author" on Post'
+      );
+    });
+  });
+
+  describe("withCount() and withAggregate()", () => {
+    it("should add typed relationship aggregates to the results", async () => {
+      mockAdapter.query
+        .mockResolvedValueOnce({ rows: [{ id: 1 }, { id: 2 }], rowCount: 2 })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              __iblal_parent_key: 1,
+              postsCount: "12",
+              postsMaxViewCount: 300,
+            },
+          ],
+          rowCount: 1,
+        });
+
+      const users = await new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      )
+        .select("id")
+        .withCount("posts", (q) => q.where("viewCount", ">", 10))
+        .withAggregate("posts", "max", "viewCount")
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT "posts"."author_id" AS "__iblal_parent_key", COUNT(*) FILTER (WHERE "posts"."view_count" > $3) AS "postsCount", MAX("posts"."view_count") AS "postsMaxViewCount" FROM "posts" WHERE "posts"."author_id" IN ($1, $2) GROUP BY "posts"."author_id"',
+        [1, 2, 10]
+      );
+      const counts: number[] = users.map((u) => u.postsCount);
+      expect(counts).toEqual([12, 0]);
+      expect(users[0].postsMaxViewCount).toBe(300);
+      expect(users[1].postsMaxViewCount).toBeNull();
+    });
+
+    it("should filter aggregates with nested whereHas", async () => {
+      registerRelationMeta({
+        User: userRelationMeta,
+        Post: postRelationMeta,
+      });
+      mockAdapter.query
+        .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 })
+        .mockResolvedValueOnce({
+          rows: [{ __iblal_parent_key: 1, postsCount: "3" }],
+          rowCount: 1,
+        });
+
+      const users = await new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      )
+        .select("id")
+        .withCount("posts", (q) => q.whereHas("categories"))
+        .exec();
+
+      expect(mockAdapter.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT "posts"."author_id" AS "__iblal_parent_key", COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM "post_categories" AS "categories_through" INNER JOIN "categories" AS "categories" ON "categories"."id" = "categories_through"."category_id" WHERE "categories_through"."post_id" = "posts"."id")) AS "postsCount" FROM "posts" WHERE "posts"."author_id" IN ($1) GROUP BY "posts"."author_id"',
+        [1]
+      );
+      expect(users[0].postsCount).toBe(3);
+    });
+
+    it("should throw for unknown relationships", () => {
+      const builder = new QueryBuilder<TestUser>("users", "User", {});
+
+      expect(() => builder.withCount("posts")).toThrow(
+        'Unknown relationship "posts" on User'
+      );
+    });
+
+    it("should throw for duplicate aggregate aliases", () => {
+      const builder = new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta
+      ).withCount("posts");
+
+      expect(() => builder.withCount("posts")).toThrow(
+        'Aggregate alias "postsCount" is already selected'
+      );
+    });
+  });
+
+  describe("executor", () => {
+    it("should run queries and relationship loads on the given executor", async () => {
+      const executor = {
+        query: jest
+          .fn()
+          .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 })
+          .mockResolvedValueOnce({
+            rows: [{ id: 10, author_id: 1 }],
+            rowCount: 1,
+          }),
+      };
+
+      const users = await new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta,
+        executor
+      )
+        .select("id")
+        .where("isActive", true)
+        .include("posts")
+        .exec();
+
+      expect(executor.query).toHaveBeenCalledTimes(2);
+      expect(mockAdapter.query).not.toHaveBeenCalled();
+      expect(users[0].posts).toEqual([{ id: 10, authorId: 1 }]);
+    });
+  });
+
+  describe("onPrimary()", () => {
+    it("should send reads to readQuery() unless onPrimary() is used", async () => {
+      const executor = {
+        query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+        readQuery: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+      };
+      const builder = new QueryBuilder<TestUser>(
+        "users",
+        "User",
+        userRelationMeta,
+        executor
+      ).where("isActive", true);
+
+      await builder.exec();
+      await builder.count();
+      expect(executor.readQuery).toHaveBeenCalledTimes(2);
+      expect(executor.query).not.toHaveBeenCalled();
+
+      executor.query.mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 });
+      await builder.onPrimary().include("posts").exec();
+      await builder.onPrimary().count();
+      // The query, the posts load and the count all skip readQuery()
+      expect(executor.query).toHaveBeenCalledTimes(3);
+      expect(executor.readQuery).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("toSQL()", () => {
     it("should return SQL string and params", () => {
       const builder = new QueryBuilder<TestUser>("users");
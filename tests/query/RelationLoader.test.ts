@@ -8,6 +8,9 @@ import {
   RelationLoader,
   RelationMeta,
   ModelRelationMeta,
+  RelationConstraint,
+  RelationAggregate,
+  registerRelationMeta,
 } from "../../src/query/RelationLoader";
 
 // Mock the DbAdapter
@@ -52,6 +55,12 @@ interface TestCategory {
   posts?: TestPost[];
 }
 
+interface TestPostWithCategories {
+  id: number;
+  title: string;
+  categories?: TestCategory[];
+}
+
 describe("RelationLoader", () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -332,6 +341,76 @@ describe("RelationLoader", () => {
       });
     });
 
+    describe("manyToMany relationships", () => {
+      const relationMeta: ModelRelationMeta = {
+        categories: {
+          type: "manyToMany",
+          targetTable: "categories",
+          sourceColumn: "id",
+          targetColumn: "id",
+          through: {
+            table: "post_categories",
+            sourceColumn: "post_id",
+            targetColumn: "category_id",
+          },
+        },
+      };
+
+      it("should load manyToMany relationship through the junction table", async () => {
+        const posts = [
+          { id: 1, title: "Post 1" },
+          { id: 2, title: "Post 2" },
+          { id: 3, title: "Post 3" },
+        ] as unknown as TestPostWithCategories[];
+
+        mockQuery.mockResolvedValueOnce({
+          rows: [
+            { id: 5, name: "News", __iblal_parent_key: 1 },
+            { id: 6, name: "Tech", __iblal_parent_key: 1 },
+            { id: 5, name: "News", __iblal_parent_key: 2 },
+          ],
+          rowCount: 3,
+        });
+
+        const loader = new RelationLoader<TestPostWithCategories>(
+          "Post",
+          "posts",
+          relationMeta
+        );
+        const result = await loader.loadRelations(posts, ["categories"]);
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          'SELECT "categories".*, "post_categories"."post_id" AS "__iblal_parent_key" FROM "categories" INNER JOIN "post_categories" ON "post_categories"."category_id" = "categories"."id" WHERE "post_categories"."post_id" IN ($1, $2, $3)',
+          [1, 2, 3]
+        );
+        expect(result[0].categories).toEqual([
+          { id: 5, name: "News" },
+          { id: 6, name: "Tech" },
+        ]);
+        expect(result[1].categories).toEqual([{ id: 5, name: "News" }]);
+        expect(result[2].categories).toEqual([]);
+      });
+
+      it("should warn when junction metadata is missing", async () => {
+        const posts = [{ id: 1 }] as unknown as TestPostWithCategories[];
+        const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation();
+
+        const loader = new RelationLoader<TestPostWithCategories>(
+          "Post",
+          "posts",
+          { categories: { ...relationMeta.categories, through: undefined } }
+        );
+        await loader.loadRelations(posts, ["categories"]);
+
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+          expect.stringContaining("missing junction table metadata")
+        );
+        expect(mockQuery).not.toHaveBeenCalled();
+
+        consoleWarnSpy.mockRestore();
+      });
+    });
+
     describe("edge cases", () => {
       it("should return empty array when no records provided", async () => {
         const relationMeta: ModelRelationMeta = {};
@@ -411,5 +490,380 @@ describe("RelationLoader", () => {
         expect(result[0].profile).toBeDefined();
       });
     });
+
+    describe("nested relationships", () => {
+      const userMeta: ModelRelationMeta = {
+        posts: {
+          type: "hasMany",
+          targetTable: "posts",
+          sourceColumn: "id",
+          targetColumn: "author_id",
+          targetModel: "Post",
+        },
+      };
+
+      beforeEach(() => {
+        registerRelationMeta({
+          User: userMeta,
+          Post: {
+            category: {
+              type: "belongsTo",
+              targetTable: "categories",
+              sourceColumn: "category_id",
+              targetColumn: "id",
+              targetModel: "Category",
+            },
+          },
+        });
+      });
+
+      it("should load dotted paths one batched query per level", async () => {
+        const users = [{ id: 1 }, { id: 2 }] as unknown as TestUser[];
+
+        mockQuery
+          .mockResolvedValueOnce({
+            rows: [
+              { id: 10, title: "A", author_id: 1, category_id: 5 },
+              { id: 11, title: "B", author_id: 1, category_id: 6 },
+              { id: 12, title: "C", author_id: 2, category_id: 5 },
+            ],
+            rowCount: 3,
+          })
+          .mockResolvedValueOnce({
+            rows: [
+              { id: 5, name: "News" },
+              { id: 6, name: "Tech" },
+            ],
+            rowCount: 2,
+          });
+
+        const loader = new RelationLoader<TestUser>("User", "users", userMeta);
+        const result = await loader.loadRelations(users, [
+          "posts",
+          "posts.category",
+        ]);
+
+        expect(mockQuery).toHaveBeenCalledTimes(2);
+        expect(mockQuery).toHaveBeenNthCalledWith(
+          2,
+          'SELECT * FROM "categories" WHERE "id" IN ($1, $2)',
+          [5, 6]
+        );
+        expect(result[0].posts![0].category).toEqual({ id: 5, name: "News" });
+        expect(result[0].posts![1].category).toEqual({ id: 6, name: "Tech" });
+        expect(result[1].posts![0].category).toEqual({ id: 5, name: "News" });
+      });
+
+      it("should skip the nested level when no related records were loaded", async () => {
+        const users = [{ id: 1 }] as unknown as TestUser[];
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+        const loader = new RelationLoader<TestUser>("User", "users", userMeta);
+        const result = await loader.loadRelations(users, ["posts.category"]);
+
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+        expect(result[0].posts).toEqual([]);
+      });
+
+      it("should warn when the target model has no registered metadata", async () => {
+        const users = [{ id: 1 }] as unknown as TestUser[];
+        mockQuery.mockResolvedValueOnce({
+          rows: [{ id: 10, author_id: 1 }],
+          rowCount: 1,
+        });
+
+        const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation();
+
+        const loader = new RelationLoader<TestUser>("User", "users", {
+          posts: { ...userMeta.posts, targetModel: undefined },
+        });
+        await loader.loadRelations(users, ["posts.category"]);
+
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+          expect.stringContaining(
+            "Cannot load nested relationships of User.posts"
+          )
+        );
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+
+        consoleWarnSpy.mockRestore();
+      });
+    });
+
+    describe("constrained relationships", () => {
+      const postsMeta: ModelRelationMeta = {
+        posts: {
+          type: "hasMany",
+          targetTable: "posts",
+          sourceColumn: "id",
+          targetColumn: "author_id",
+          targetModel: "Post",
+        },
+      };
+
+      const constraint = (
+        overrides: Partial<RelationConstraint>
+      ): RelationConstraint => ({
+        columns: "*",
+        buildConditions: () => "",
+        orderBy: [],
+        limit: null,
+        offset: null,
+        ...overrides,
+      });
+
+      it("should apply conditions, ordering and selected columns", async () => {
+        const users = [{ id: 1 }, { id: 2 }] as unknown as TestUser[];
+        mockQuery.mockResolvedValueOnce({
+          rows: [
+            { id: 11, title: "B", author_id: 1 },
+            { id: 10, title: "A", author_id: 1 },
+          ],
+          rowCount: 2,
+        });
+
+        const loader = new RelationLoader<TestUser>("User", "users", postsMeta);
+        const result = await loader.loadRelations(users, ["posts"], {
+          posts: constraint({
+            columns: ["id", "title"],
+            buildConditions: (params) => {
+              params.push("published");
+              return `"posts"."status" = $${params.length}`;
+            },
+            orderBy: ['"posts"."id" DESC'],
+          }),
+        });
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          'SELECT "posts"."id", "posts"."title", "posts"."author_id" FROM "posts" WHERE "posts"."author_id" IN ($1, $2) AND ("posts"."status" = $3) ORDER BY "posts"."id" DESC',
+          [1, 2, "published"]
+        );
+        expect(result[0].posts).toEqual([
+          { id: 11, title: "B", authorId: 1 },
+          { id: 10, title: "A", authorId: 1 },
+        ]);
+        expect(result[1].posts).toEqual([]);
+      });
+
+      it("should limit hasMany rows per parent with ROW_NUMBER()", async () => {
+        const users = [{ id: 1 }, { id: 2 }] as unknown as TestUser[];
+        mockQuery.mockResolvedValueOnce({
+          rows: [
+            { id: 12, author_id: 1, __iblal_row_number: 1 },
+            { id: 20, author_id: 2, __iblal_row_number: 1 },
+            { id: 11, author_id: 1, __iblal_row_number: 2 },
+          ],
+          rowCount: 3,
+        });
+
+        const loader = new RelationLoader<TestUser>("User", "users", postsMeta);
+        const result = await loader.loadRelations(users, ["posts"], {
+          posts: constraint({ orderBy: ['"posts"."id" DESC'], limit: 2 }),
+        });
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          'SELECT * FROM (SELECT "posts".*, ROW_NUMBER() OVER (PARTITION BY "posts"."author_id" ORDER BY "posts"."id" DESC) AS "__iblal_row_number" FROM "posts" WHERE "posts"."author_id" IN ($1, $2)) AS "__iblal_ranked" WHERE "__iblal_row_number" > 0 AND "__iblal_row_number" <= 2 ORDER BY "__iblal_row_number"',
+          [1, 2]
+        );
+        expect(result[0].posts).toEqual([
+          { id: 12, authorId: 1 },
+          { id: 11, authorId: 1 },
+        ]);
+        expect(result[1].posts).toEqual([{ id: 20, authorId: 2 }]);
+      });
+
+      it("should limit manyToMany rows per parent by the junction key", async () => {
+        const posts = [{ id: 1 }] as unknown as TestPostWithCategories[];
+        mockQuery.mockResolvedValueOnce({
+          rows: [{ id: 6, __iblal_parent_key: 1, __iblal_row_number: 2 }],
+          rowCount: 1,
+        });
+
+        const loader = new RelationLoader<TestPostWithCategories>(
+          "Post",
+          "posts",
+          {
+            categories: {
+              type: "manyToMany",
+              targetTable: "categories",
+              sourceColumn: "id",
+              targetColumn: "id",
+              through: {
+                table: "post_categories",
+                sourceColumn: "post_id",
+                targetColumn: "category_id",
+              },
+            },
+          }
+        );
+        const result = await loader.loadRelations(posts, ["categories"], {
+          categories: constraint({ columns: ["id"], limit: 1, offset: 1 }),
+        });
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          'SELECT * FROM (SELECT "categories"."id", "post_categories"."post_id" AS "__iblal_parent_key", ROW_NUMBER() OVER (PARTITION BY "post_categories"."post_id") AS "__iblal_row_number" FROM "categories" INNER JOIN "post_categories" ON "post_categories"."category_id" = "categories"."id" WHERE "post_categories"."post_id" IN ($1)) AS "__iblal_ranked" WHERE "__iblal_row_number" > 1 AND "__iblal_row_number" <= 2 ORDER BY "__iblal_row_number"',
+          [1]
+        );
+        expect(result[0].categories).toEqual([{ id: 6 }]);
+      });
+
+      it("should pass constraints on dotted paths to the nested level", async () => {
+        registerRelationMeta({
+          Post: {
+            category: {
+              type: "belongsTo",
+              targetTable: "categories",
+              sourceColumn: "category_id",
+              targetColumn: "id",
+            },
+          },
+        });
+
+        const users = [{ id: 1 }] as unknown as TestUser[];
+        mockQuery
+          .mockResolvedValueOnce({
+            rows: [{ id: 10, author_id: 1, category_id: 5 }],
+            rowCount: 1,
+          })
+          .mockResolvedValueOnce({ rows: [{ id: 5 }], rowCount: 1 });
+
+        const loader = new RelationLoader<TestUser>("User", "users", postsMeta);
+        await loader.loadRelations(users, ["posts.category"], {
+          "posts.category": constraint({ columns: ["name"] }),
+        });
+
+        expect(mockQuery).toHaveBeenNthCalledWith(
+          1,
+          'SELECT * FROM "posts" WHERE "author_id" IN ($1)',
+          [1]
+        );
+        expect(mockQuery).toHaveBeenNthCalledWith(
+          2,
+          'SELECT "categories"."name", "categories"."id" FROM "categories" WHERE "categories"."id" IN ($1)',
+          [5]
+        );
+      });
+    });
+  });
+
+  describe("loadAggregates()", () => {
+    const postsMeta: ModelRelationMeta = {
+      posts: {
+        type: "hasMany",
+        targetTable: "posts",
+        sourceColumn: "id",
+        targetColumn: "author_id",
+      },
+    };
+
+    const postsCount: RelationAggregate = {
+      relation: "posts",
+      alias: "postsCount",
+      expression: "COUNT(*)",
+      decode: Number,
+      emptyValue: 0,
+    };
+
+    it("should compute every aggregate of a relationship in one grouped query", async () => {
+      const users = [{ id: 1 }, { id: 2 }] as unknown as TestUser[];
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            __iblal_parent_key: 1,
+            postsCount: "2",
+            postsSumViewCount: "150",
+          },
+        ],
+        rowCount: 1,
+      });
+
+      const loader = new RelationLoader<TestUser>("User", "users", postsMeta);
+      const result = await loader.loadAggregates(users, [
+        postsCount,
+        {
+          relation: "posts",
+          alias: "postsSumViewCount",
+          expression: 'SUM("posts"."view_count")',
+          buildConditions: (params) => {
+            params.push("published");
+            return `"posts"."status" = $${params.length}`;
+          },
+          decode: Number,
+          emptyValue: null,
+        },
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery).toHaveBeenCalledWith(
+        'SELECT "posts"."author_id" AS "__iblal_parent_key", COUNT(*) AS "postsCount", SUM("posts"."view_count") FILTER (WHERE "posts"."status" = $3) AS "postsSumViewCount" FROM "posts" WHERE "posts"."author_id" IN ($1, $2) GROUP BY "posts"."author_id"',
+        [1, 2, "published"]
+      );
+      expect(result[0]).toEqual({
+        id: 1,
+        postsCount: 2,
+        postsSumViewCount: 150,
+      });
+      expect(result[1]).toEqual({
+        id: 2,
+        postsCount: 0,
+        postsSumViewCount: null,
+      });
+    });
+
+    it("should throw when the parent key column is not selected", async () => {
+      const users = [{ displayName: "Ada" }] as unknown as TestUser[];
+
+      const loader = new RelationLoader<TestUser>("User", "users", postsMeta);
+
+      await expect(loader.loadAggregates(users, [postsCount])).rejects.toThrow(
+        'Aggregates of relationship "posts" require the "id" column in select()'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should group manyToMany aggregates by the junction key", async () => {
+      const posts = [{ id: 1 }] as unknown as TestPostWithCategories[];
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ __iblal_parent_key: 1, categoriesCount: "3" }],
+        rowCount: 1,
+      });
+
+      const loader = new RelationLoader<TestPostWithCategories>(
+        "Post",
+        "posts",
+        {
+          categories: {
+            type: "manyToMany",
+            targetTable: "categories",
+            sourceColumn: "id",
+            targetColumn: "id",
+            through: {
+              table: "post_categories",
+              sourceColumn: "post_id",
+              targetColumn: "category_id",
+            },
+          },
+        }
+      );
+      const result = await loader.loadAggregates(posts, [
+        { ...postsCount, relation: "categories", alias: "categoriesCount" },
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        'SELECT "post_categories"."post_id" AS "__iblal_parent_key", COUNT(*) AS "categoriesCount" FROM "categories" INNER JOIN "post_categories" ON "post_categories"."category_id" = "categories"."id" WHERE "post_categories"."post_id" IN ($1) GROUP BY "post_categories"."post_id"',
+        [1]
+      );
+      expect(result[0]).toEqual({ id: 1, categoriesCount: 3 });
+    });
+
+    it("should use the empty value without querying when no keys exist", async () => {
+      const users = [{ id: null }] as unknown as TestUser[];
+
+      const loader = new RelationLoader<TestUser>("User", "users", postsMeta);
+      const result = await loader.loadAggregates(users, [postsCount]);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(result[0]).toEqual({ id: null, postsCount: 0 });
+    });
   });
 });
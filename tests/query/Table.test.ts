@@ -4,7 +4,7 @@
  * Tests for the Table class including CRUD operations.
  */
 
-import { Table, InsertData, UpdateData } from "../../src/query/Table";
+import { Table, InsertData, UpdateData, raw } from "../../src/query/Table";
 import { QueryBuilder } from "../../src/query/QueryBuilder";
 
 // Mock the DbAdapter
@@ -30,6 +30,13 @@ interface TestPost {
 // Auto-generated fields
 type PostAutoFields = "id" | "createdAt" | "updatedAt";
 
+// Junction table with a composite primary key
+interface TestPostCategory {
+  postId: number;
+  categoryId: number;
+  position: number;
+}
+
 describe("Table", () => {
   let mockAdapter: { query: jest.Mock };
   let table: Table<TestPost, PostAutoFields>;
@@ -190,6 +197,23 @@ describe("Table", () => {
       expect(sqlCall).not.toContain('"updated_at"');
     });
 
+    it("should add custom auto fields to the defaults", async () => {
+      const posts = new Table<TestPost, PostAutoFields | "content">("posts", [
+        "content",
+      ]);
+
+      await posts.insert({
+        id: 7,
+        title: "Test",
+        content: "Content",
+        authorId: 1,
+        createdAt: new Date(),
+      } as InsertData<TestPost, PostAutoFields>);
+
+      const sqlCall = mockAdapter.query.mock.calls[0][0];
+      expect(sqlCall).toContain('("title", "author_id")');
+    });
+
     it("should handle nullable fields", async () => {
       mockAdapter.query.mockResolvedValueOnce({
         rows: [
@@ -215,6 +239,23 @@ describe("Table", () => {
 
       expect(result.publishedAt).toEqual(new Date("2023-06-01"));
     });
+
+    it("should return null when the conflict is ignored", async () => {
+      mockAdapter.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      const result = await table.insert(
+        { title: "Test", content: "Content", authorId: 1 },
+        { onConflict: { target: ["title"], doNothing: true } }
+      );
+
+      expect(result).toBeNull();
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'VALUES ($1, $2, $3) ON CONFLICT ("title") DO NOTHING'
+        ),
+        ["Test", "Content", 1]
+      );
+    });
   });
 
   describe("insertMany()", () => {
@@ -247,6 +288,116 @@ describe("Table", () => {
     });
   });
 
+  describe("upsert()", () => {
+    const rows: InsertData<TestPost, PostAutoFields>[] = [
+      { title: "Post 1", content: "Content 1", authorId: 1 },
+      { title: "Post 2", content: "Content 2", authorId: 2 },
+    ];
+
+    it("should merge every inserted column except the target by default", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ id: 1, title: "Post 1", author_id: 1 }],
+        rowCount: 1,
+      });
+
+      const results = await table.upsert(rows[0], ["title"]);
+
+      expect(results[0].id).toBe(1);
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'ON CONFLICT ("title") DO UPDATE SET "content" = EXCLUDED."content", "author_id" = EXCLUDED."author_id", "updated_at" = CURRENT_TIMESTAMP'
+        ),
+        ["Post 1", "Content 1", 1]
+      );
+      expect(mockAdapter.query.mock.calls[0][0]).toContain("RETURNING *");
+    });
+
+    it("should merge only the given columns", async () => {
+      await table.upsert(rows, ["title"], ["content"]);
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'VALUES ($1, $2, $3), ($4, $5, $6) ON CONFLICT ("title") DO UPDATE SET "content" = EXCLUDED."content", "updated_at"'
+        ),
+        ["Post 1", "Content 1", 1, "Post 2", "Content 2", 2]
+      );
+    });
+
+    it("should merge explicit values and raw expressions", async () => {
+      await table.upsert(
+        rows[0],
+        { constraint: "posts_title_key" },
+        {
+          content: raw(`"posts"."content" || EXCLUDED."content"`),
+          publishedAt: null,
+        }
+      );
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'ON CONFLICT ON CONSTRAINT "posts_title_key" DO UPDATE SET "content" = "posts"."content" || EXCLUDED."content", "published_at" = $4'
+        ),
+        ["Post 1", "Content 1", 1, null]
+      );
+    });
+
+    it("should set updated_at when the column has no default", async () => {
+      const posts = new Table<TestPost, PostAutoFields>("posts", [
+        "id",
+        "createdAt",
+      ]);
+
+      await posts.upsert(rows[0], ["title"], ["content"]);
+
+      expect(mockAdapter.query.mock.calls[0][0]).toContain(
+        'DO UPDATE SET "content" = EXCLUDED."content", "updated_at" = CURRENT_TIMESTAMP'
+      );
+    });
+
+    it("should not touch updated_at on tables without it", async () => {
+      const postCategories = new Table<
+        TestPostCategory,
+        never,
+        "postId" | "categoryId"
+      >(
+        "post_categories",
+        [],
+        "PostCategory",
+        {},
+        ["postId", "categoryId"],
+        null,
+        false
+      );
+
+      await postCategories.upsert({ postId: 1, categoryId: 2, position: 3 }, [
+        "postId",
+        "categoryId",
+      ]);
+
+      const sql = mockAdapter.query.mock.calls[0][0];
+      expect(sql).toContain(
+        'ON CONFLICT ("post_id", "category_id") DO UPDATE SET "position" = EXCLUDED."position"'
+      );
+      expect(sql).not.toContain('"updated_at"');
+    });
+
+    it("should support DO NOTHING on insertMany", async () => {
+      await table.insertMany(rows, { onConflict: { doNothing: true } });
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        expect.stringContaining("($4, $5, $6) ON CONFLICT DO NOTHING"),
+        expect.any(Array)
+      );
+    });
+
+    it("should throw when there is nothing to merge", async () => {
+      await expect(
+        table.upsert({ title: "Only title" } as never, ["title"])
+      ).rejects.toThrow("No valid fields to merge on conflict");
+      expect(mockAdapter.query).not.toHaveBeenCalled();
+    });
+  });
+
   describe("update()", () => {
     it("should update records matching condition", async () => {
       mockAdapter.query.mockResolvedValueOnce({
@@ -368,6 +519,144 @@ describe("Table", () => {
     });
   });
 
+  describe("primary keys", () => {
+    let postCategories: Table<TestPostCategory, never, "postId" | "categoryId">;
+
+    beforeEach(() => {
+      postCategories = new Table<
+        TestPostCategory,
+        never,
+        "postId" | "categoryId"
+      >(
+        "post_categories",
+        [],
+        "PostCategory",
+        {},
+        ["postId", "categoryId"],
+        null,
+        false
+      );
+    });
+
+    it("should find a record by composite key", async () => {
+      mockAdapter.query.mockResolvedValueOnce({
+        rows: [{ post_id: 1, category_id: 2, position: 3 }],
+        rowCount: 1,
+      });
+
+      const result = await postCategories.findById({
+        postId: 1,
+        categoryId: 2,
+      });
+
+      expect(result).toEqual({ postId: 1, categoryId: 2, position: 3 });
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM "post_categories" WHERE "post_id" = $1 AND "category_id" = $2 LIMIT 1',
+        [1, 2]
+      );
+    });
+
+    it("should update and delete by composite key", async () => {
+      mockAdapter.query
+        .mockResolvedValueOnce({ rows: [{ post_id: 1 }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      await postCategories.updateById(
+        { postId: 1, categoryId: 2 },
+        { position: 5 }
+      );
+      const deleted = await postCategories.deleteById({
+        postId: 1,
+        categoryId: 2,
+      });
+
+      expect(mockAdapter.query.mock.calls[0][0]).toContain(
+        'WHERE "post_id" = $2 AND "category_id" = $3'
+      );
+      expect(mockAdapter.query.mock.calls[0][1]).toEqual([5, 1, 2]);
+      expect(mockAdapter.query.mock.calls[1][0]).toContain(
+        'WHERE "post_id" = $1 AND "category_id" = $2'
+      );
+      expect(deleted).toBe(true);
+    });
+
+    it("should not set updated_at on tables without it", async () => {
+      await postCategories.updateById(
+        { postId: 1, categoryId: 2 },
+        { position: 5 }
+      );
+
+      const sql = mockAdapter.query.mock.calls[0][0];
+      expect(sql).toMatch(/SET "position" = \$1\s+WHERE/);
+      expect(sql).not.toContain('"updated_at"');
+    });
+
+    it("should throw when a key column is missing", async () => {
+      await expect(
+        postCategories.findById({ postId: 1 } as never)
+      ).rejects.toThrow(
+        'Missing primary key column "categoryId" for table "post_categories"'
+      );
+      expect(mockAdapter.query).not.toHaveBeenCalled();
+    });
+
+    it("should accept a key object for single-column keys", async () => {
+      await table.findById({ id: 7 });
+
+      expect(mockAdapter.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE "id" = $1'),
+        [7]
+      );
+    });
+
+    it("should use a custom single-column key", async () => {
+      const users = new Table<{ email: string; name: string }, never, "email">(
+        "users",
+        [],
+        "User",
+        {},
+        ["email"]
+      );
+
+      await users.deleteById("a@example.com");
+      await users.insert({ email: "a@example.com", name: "A" });
+
+      expect(mockAdapter.query.mock.calls[0][0]).toContain(
+        'WHERE "email" = $1'
+      );
+      // Explicit auto fields replace the id/createdAt/updatedAt defaults
+      expect(mockAdapter.query.mock.calls[1][1]).toEqual([
+        "a@example.com",
+        "A",
+      ]);
+    });
+  });
+
+  describe("executor", () => {
+    it("should run every operation on the given executor", async () => {
+      const executor = {
+        query: jest.fn().mockResolvedValue({ rows: [{ id: 1 }], rowCount: 1 }),
+      };
+      const scoped = new Table<TestPost, PostAutoFields>(
+        "posts",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        executor
+      );
+
+      await scoped.insert({ title: "T", content: "C", authorId: 1 });
+      await scoped.findById(1);
+      await scoped.updateById(1, { title: "U" });
+      await scoped.deleteById(1);
+      await scoped.select("*").count();
+
+      expect(executor.query).toHaveBeenCalledTimes(5);
+      expect(mockAdapter.query).not.toHaveBeenCalled();
+    });
+  });
+
   describe("update chaining", () => {
     it("should support multiple WHERE conditions", async () => {
       mockAdapter.query.mockResolvedValueOnce({
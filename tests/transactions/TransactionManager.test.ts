@@ -70,6 +70,24 @@ describe("TransactionClient", () => {
       expect(result.rows).toEqual([{ id: 1, name: "Test" }]);
     });
 
+    it("should throw typed errors for failed queries", async () => {
+      const { NotNullError } = require("../../src/db/DatabaseError");
+      mockClientQuery.mockRejectedValueOnce(
+        Object.assign(new Error("null value in column"), {
+          code: "23502",
+          column: "author_id",
+        })
+      );
+
+      const trx = new TransactionClient(mockClient);
+      const error = await trx
+        .query("INSERT INTO posts (title) VALUES ($1)", ["Hi"])
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NotNullError);
+      expect(error).toMatchObject({ code: "23502", column: "authorId" });
+    });
+
     it("should throw error if transaction is completed", async () => {
       const trx = new TransactionClient(mockClient);
       mockClientQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 });
@@ -156,6 +174,82 @@ describe("TransactionClient", () => {
     });
   });
 
+  describe("transaction() (nested)", () => {
+    it("should release the savepoint when the callback succeeds", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const trx = new TransactionClient(mockClient);
+      const result = await trx.transaction(async (nested) => {
+        await nested.query("INSERT INTO logs (msg) VALUES ($1)", ["hi"]);
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(mockClientQuery.mock.calls.map((c) => c[0])).toEqual([
+        'SAVEPOINT "iblal_sp_1"',
+        "INSERT INTO logs (msg) VALUES ($1)",
+        'RELEASE SAVEPOINT "iblal_sp_1"',
+      ]);
+      expect(trx.isActive).toBe(true);
+    });
+
+    it("should roll back to the savepoint when the callback throws", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const trx = new TransactionClient(mockClient);
+      await expect(
+        trx.transaction(async () => {
+          throw new Error("Nested error");
+        })
+      ).rejects.toThrow("Nested error");
+
+      expect(mockClientQuery.mock.calls.map((c) => c[0])).toEqual([
+        'SAVEPOINT "iblal_sp_1"',
+        'ROLLBACK TO SAVEPOINT "iblal_sp_1"',
+        'RELEASE SAVEPOINT "iblal_sp_1"',
+      ]);
+      expect(trx.isActive).toBe(true);
+    });
+
+    it("should use distinct savepoints for deeper nesting", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const trx = new TransactionClient(mockClient);
+      await trx.transaction((outer) => outer.transaction(async () => null));
+
+      expect(mockClientQuery).toHaveBeenCalledWith(
+        'SAVEPOINT "iblal_sp_2"',
+        []
+      );
+    });
+  });
+
+  describe("savepoint()", () => {
+    it("should create, roll back to and release named savepoints", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const trx = new TransactionClient(mockClient);
+      const name = await trx.savepoint("before_import");
+      await trx.rollbackTo(name);
+      await trx.releaseSavepoint(name);
+
+      expect(mockClientQuery.mock.calls.map((c) => c[0])).toEqual([
+        'SAVEPOINT "before_import"',
+        'ROLLBACK TO SAVEPOINT "before_import"',
+        'RELEASE SAVEPOINT "before_import"',
+      ]);
+    });
+
+    it("should reject invalid savepoint names", async () => {
+      const trx = new TransactionClient(mockClient);
+
+      await expect(trx.savepoint("x; DROP TABLE users")).rejects.toThrow(
+        "Invalid savepoint name"
+      );
+      expect(mockClientQuery).not.toHaveBeenCalled();
+    });
+  });
+
   describe("isActive", () => {
     it("should return true for new transaction", () => {
       const trx = new TransactionClient(mockClient);
@@ -247,4 +341,383 @@ describe("transaction()", () => {
 
     expect(mockClientRelease).toHaveBeenCalled();
   });
+
+  describe("afterCommit() / afterRollback()", () => {
+    it("should run commit hooks in order after COMMIT, isolating failures", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+      const consoleError = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => undefined);
+
+      const {
+        transaction,
+      } = require("../../src/transactions/TransactionManager");
+
+      const calls: string[] = [];
+      const result = await transaction(async (trx: any) => {
+        trx.afterCommit(() => {
+          calls.push(`first:${mockClientQuery.mock.calls.length}`);
+        });
+        trx.afterCommit(async () => {
+          throw new Error("mail server down");
+        });
+        trx.afterCommit(() => {
+          calls.push("third");
+        });
+        trx.afterRollback(() => {
+          calls.push("rollback");
+        });
+        return "ok";
+      });
+
+      expect(result).toBe("ok");
+      // BEGIN and COMMIT ran before the first hook
+      expect(calls).toEqual(["first:2", "third"]);
+      expect(consoleError).toHaveBeenCalledWith(
+        "afterCommit hook failed:",
+        expect.any(Error)
+      );
+      consoleError.mockRestore();
+    });
+
+    it("should release the client before running hooks", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const {
+        transaction,
+      } = require("../../src/transactions/TransactionManager");
+
+      const releasedBeforeHook: boolean[] = [];
+      await transaction(async (trx: any) => {
+        trx.afterCommit(() => {
+          releasedBeforeHook.push(mockClientRelease.mock.calls.length === 1);
+        });
+      });
+      await expect(
+        transaction(async (trx: any) => {
+          trx.afterRollback(() => {
+            releasedBeforeHook.push(mockClientRelease.mock.calls.length === 2);
+          });
+          throw new Error("Test error");
+        })
+      ).rejects.toThrow("Test error");
+
+      expect(releasedBeforeHook).toEqual([true, true]);
+    });
+
+    it("should run rollback hooks and rethrow the original error", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const {
+        transaction,
+      } = require("../../src/transactions/TransactionManager");
+
+      const onCommit = jest.fn();
+      const onRollback = jest.fn();
+
+      await expect(
+        transaction(async (trx: any) => {
+          trx.afterCommit(onCommit);
+          trx.afterRollback(onRollback);
+          throw new Error("Test error");
+        })
+      ).rejects.toThrow("Test error");
+
+      expect(onCommit).not.toHaveBeenCalled();
+      expect(onRollback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should drop hooks of a rolled back nested transaction", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const {
+        transaction,
+      } = require("../../src/transactions/TransactionManager");
+
+      const outerCommit = jest.fn();
+      const nestedCommit = jest.fn();
+      const nestedRollback = jest.fn();
+
+      await transaction(async (trx: any) => {
+        trx.afterCommit(outerCommit);
+        await trx
+          .transaction(async (nested: any) => {
+            nested.afterCommit(nestedCommit);
+            nested.afterRollback(nestedRollback);
+            throw new Error("nested failure");
+          })
+          .catch(() => undefined);
+        expect(nestedRollback).toHaveBeenCalledTimes(1);
+      });
+
+      expect(outerCommit).toHaveBeenCalledTimes(1);
+      expect(nestedCommit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("options", () => {
+    it("should build BEGIN with access mode and SET LOCAL settings", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const {
+        transaction,
+      } = require("../../src/transactions/TransactionManager");
+
+      await transaction(async () => undefined, {
+        isolationLevel: "SERIALIZABLE",
+        readOnly: true,
+        deferrable: true,
+        statementTimeout: 5000,
+        lockTimeout: "2s",
+        idleInTransactionSessionTimeout: "1min",
+        settings: { "app.user_id": 42, "app.note": "it's" },
+      });
+
+      expect(mockClientQuery.mock.calls.map(([sql]) => sql)).toEqual([
+        "BEGIN ISOLATION LEVEL SERIALIZABLE, READ ONLY, DEFERRABLE",
+        "SET LOCAL statement_timeout = '5000'",
+        "SET LOCAL lock_timeout = '2s'",
+        "SET LOCAL idle_in_transaction_session_timeout = '1min'",
+        "SET LOCAL app.user_id = '42'",
+        "SET LOCAL app.note = 'it''s'",
+        "COMMIT",
+      ]);
+    });
+
+    it("should reject invalid setting names and timeouts", async () => {
+      const {
+        transaction,
+      } = require("../../src/transactions/TransactionManager");
+
+      await expect(
+        transaction(async () => undefined, {
+          settings: { "search_path; DROP TABLE users": "x" },
+        })
+      ).rejects.toThrow("Invalid setting name");
+      await expect(
+        transaction(async () => undefined, { lockTimeout: -1 })
+      ).rejects.toThrow("Invalid lock_timeout: -1");
+      expect(mockPoolConnect).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should emit the adapter's query hooks for transaction queries", async () => {
+    mockClientQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+
+    const { getDbAdapter } = require("../../src/db/DbAdapter");
+    const {
+      transaction,
+    } = require("../../src/transactions/TransactionManager");
+
+    const afterQuery = jest.fn();
+    getDbAdapter().addQueryHooks({ afterQuery });
+
+    await transaction(async (trx: any) => {
+      await trx.query("INSERT INTO users (name) VALUES ($1)", ["John"]);
+    });
+
+    expect(afterQuery.mock.calls.map(([event]) => event.sql)).toEqual([
+      "BEGIN",
+      "INSERT INTO users (name) VALUES ($1)",
+      "COMMIT",
+    ]);
+    expect(afterQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ target: "transaction" })
+    );
+  });
+
+  it("should run on the adapter passed in the options", async () => {
+    mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+    const { DbAdapter } = require("../../src/db/DbAdapter");
+    const {
+      transaction,
+    } = require("../../src/transactions/TransactionManager");
+
+    const analytics = new DbAdapter({ database: "analytics" });
+    const getClient = jest.spyOn(analytics, "getClient");
+
+    await transaction(
+      async (trx: any) => {
+        expect(trx.adapter).toBe(analytics);
+      },
+      { adapter: analytics }
+    );
+
+    expect(getClient).toHaveBeenCalledTimes(1);
+  });
+
+  describe("retry policy", () => {
+    const serializationFailure = () =>
+      Object.assign(new Error("could not serialize access"), {
+        code: "40001",
+      });
+
+    it("should re-run the callback on a fresh transaction", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const {
+        transaction,
+      } = require("../../src/transactions/TransactionManager");
+
+      const attempts: number[] = [];
+      const result = await transaction(
+        async (_trx: any, attempt: number) => {
+          attempts.push(attempt);
+          if (attempt < 3) {
+            throw serializationFailure();
+          }
+          return "done";
+        },
+        {
+          isolationLevel: "SERIALIZABLE",
+          retry: { maxAttempts: 3, baseDelayMs: 0 },
+        }
+      );
+
+      expect(result).toBe("done");
+      expect(attempts).toEqual([1, 2, 3]);
+      expect(mockPoolConnect).toHaveBeenCalledTimes(3);
+      expect(
+        mockClientQuery.mock.calls.filter(
+          ([sql]) => sql === "BEGIN ISOLATION LEVEL SERIALIZABLE"
+        )
+      ).toHaveLength(3);
+      expect(mockClientRelease).toHaveBeenCalledTimes(3);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const {
+        transactionWithIsolation,
+      } = require("../../src/transactions/TransactionManager");
+
+      const callback = jest.fn().mockRejectedValue(serializationFailure());
+
+      await expect(
+        transactionWithIsolation("SERIALIZABLE", callback, {
+          retry: { maxAttempts: 2, baseDelayMs: 0 },
+        })
+      ).rejects.toThrow("could not serialize access");
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry other errors or without a policy", async () => {
+      mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const {
+        transaction,
+      } = require("../../src/transactions/TransactionManager");
+
+      const uniqueViolation = jest
+        .fn()
+        .mockRejectedValue(
+          Object.assign(new Error("duplicate key"), { code: "23505" })
+        );
+      await expect(
+        transaction(uniqueViolation, { retry: { baseDelayMs: 0 } })
+      ).rejects.toThrow("duplicate key");
+      expect(uniqueViolation).toHaveBeenCalledTimes(1);
+
+      const noPolicy = jest.fn().mockRejectedValue(serializationFailure());
+      await expect(transaction(noPolicy)).rejects.toThrow();
+      expect(noPolicy).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe("ambient transactions", () => {
+  let tm: typeof import("../../src/transactions/TransactionManager");
+  let adapter: import("../../src/db/DbAdapter").DbAdapter;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.resetModules();
+
+    mockPoolConnect.mockResolvedValue({
+      query: mockClientQuery,
+      release: mockClientRelease,
+    } as unknown as PoolClient);
+    mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+    mockPoolQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+    tm = require("../../src/transactions/TransactionManager");
+    adapter = require("../../src/db/DbAdapter").getDbAdapter();
+    tm.enableAmbientTransactions();
+  });
+
+  it("should route DbAdapter queries through the active transaction", async () => {
+    await tm.transaction(async () => {
+      await adapter.query("INSERT INTO users (name) VALUES ($1)", ["John"]);
+    });
+
+    expect(mockClientQuery).toHaveBeenCalledWith(
+      "INSERT INTO users (name) VALUES ($1)",
+      ["John"]
+    );
+    expect(mockPoolQuery).not.toHaveBeenCalled();
+    expect(tm.getActiveTransaction()).toBeUndefined();
+  });
+
+  it("should leave the transaction inside withoutTransaction()", async () => {
+    await tm.transaction(async () => {
+      await tm.withoutTransaction(() =>
+        adapter.query("INSERT INTO audit_log (action) VALUES ($1)", ["x"])
+      );
+    });
+
+    expect(mockPoolQuery).toHaveBeenCalledWith(
+      "INSERT INTO audit_log (action) VALUES ($1)",
+      ["x"]
+    );
+  });
+
+  it("should nest transaction() calls using savepoints", async () => {
+    await tm.transaction(async (outer) => {
+      await tm.transaction(async (inner) => {
+        expect(inner).toBe(outer);
+      });
+    });
+
+    expect(mockPoolConnect).toHaveBeenCalledTimes(1);
+    expect(mockClientQuery).toHaveBeenCalledWith('SAVEPOINT "iblal_sp_1"', []);
+  });
+
+  it("should reject queries on a different transaction", async () => {
+    let first: import("../../src/transactions/TransactionManager").TransactionClient;
+    await tm.transaction(async (trx) => {
+      first = trx;
+      await tm.withoutTransaction(() =>
+        tm.transaction(async () => {
+          await expect(first.query("SELECT 1")).rejects.toThrow(
+            "Query issued on a transaction other than the active one"
+          );
+        })
+      );
+    });
+  });
+
+  it("should only route queries of the transaction's adapter", async () => {
+    const { DbAdapter } = require("../../src/db/DbAdapter");
+    const analytics = new DbAdapter({ database: "analytics" });
+
+    await tm.transaction(async () => {
+      await analytics.query("SELECT 1");
+    });
+
+    expect(mockPoolQuery).toHaveBeenCalledWith("SELECT 1", []);
+    expect(mockClientQuery).not.toHaveBeenCalledWith("SELECT 1", []);
+  });
+
+  it("should do nothing unless enabled", async () => {
+    tm.enableAmbientTransactions(false);
+
+    await tm.transaction(async () => {
+      expect(tm.getActiveTransaction()).toBeUndefined();
+      await adapter.query("SELECT 1");
+    });
+
+    expect(mockPoolQuery).toHaveBeenCalledWith("SELECT 1", []);
+  });
 });